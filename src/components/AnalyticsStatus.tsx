@@ -0,0 +1,31 @@
+import React, { useEffect, useState } from "react";
+import type { AnalyticsState } from "../hooks/useRiskAnalytics";
+
+type Props = { state: AnalyticsState };
+
+// progress of the background risk computation; figures on screen stay at the last finished report meanwhile
+export default function AnalyticsStatus({ state }: Props) {
+  const { report, busy, progress, error } = state;
+  // quick runs (most slider moves) finish before the bar would be noticed, so don't flash it
+  const [visible, setVisible] = useState(false);
+  useEffect(() => {
+    if (!busy) return setVisible(false);
+    const t = setTimeout(() => setVisible(true), 200);
+    return () => clearTimeout(t);
+  }, [busy]);
+
+  if (error) return <div className="mb-4 text-sm text-red-600 print:hidden">{error}</div>;
+  if (!busy || !visible) return null;
+  const pct = Math.round((progress?.fraction ?? 0) * 100);
+  return (
+    <div className="mb-4 print:hidden" role="status">
+      <div className="flex items-center justify-between text-xs text-gray-500 dark:text-muted-dark mb-1">
+        <span>{report ? "Updating risk figures…" : "Computing risk figures…"} {progress?.stage}</span>
+        <span>{pct}%</span>
+      </div>
+      <div className="h-1 rounded-full bg-gray-200 dark:bg-gray-800 overflow-hidden">
+        <div className="h-1 bg-blue-600 transition-all" style={{ width: `${pct}%` }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from "react";
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Scatter, Tooltip, XAxis, YAxis } from "recharts";
+import { backtestVaR, type BacktestMethod, type TrafficLight } from "../lib/backtest";
+import { toConf, toPct } from "../lib/format";
+
+type Props = {
+  returns: number[]; // daily portfolio returns
+  conf: number;
+};
+
+const WINDOWS = [63, 126, 250];
+
+const ZONE_CLS: Record<TrafficLight, string> = {
+  green: "bg-green-600 text-white",
+  yellow: "bg-amber-500 text-white",
+  red: "bg-red-600 text-white",
+};
+
+// smallest history we still backtest on: leave at least a month of out-of-sample days
+const MIN_TEST_DAYS = 21;
+
+export default function BacktestPanel({ returns, conf }: Props) {
+  const usable = WINDOWS.filter((w) => returns.length - w >= MIN_TEST_DAYS);
+  const [windowDays, setWindowDays] = useState(126);
+  const [method, setMethod] = useState<BacktestMethod>("historical");
+  const win = usable.includes(windowDays) ? windowDays : usable[usable.length - 1] ?? 0;
+
+  const result = useMemo(() => (win ? backtestVaR(returns, win, conf, method) : null), [returns, win, conf, method]);
+
+  const chartData = useMemo(
+    () =>
+      result?.points.map((p) => ({
+        idx: p.idx,
+        "Daily P&L": p.pnl,
+        "-VaR": -p.var,
+        Exception: p.exception ? p.pnl : null,
+      })) ?? [],
+    [result],
+  );
+
+  return (
+    <div className="card">
+      <h3 className="font-medium mb-3">VaR Backtest ({toConf(conf)}, rolling)</h3>
+      <div className="flex flex-wrap items-center gap-4 text-sm mb-3">
+        <label className="flex items-center gap-2">
+          Window
+          <select
+            value={win}
+            onChange={(e) => setWindowDays(parseInt(e.target.value))}
+            className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1"
+          >
+            {usable.map((w) => (
+              <option key={w} value={w}>{w} days</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="radio" name="bt-method" checked={method === "historical"} onChange={() => setMethod("historical")} /> Historical
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="radio" name="bt-method" checked={method === "parametric"} onChange={() => setMethod("parametric")} /> Variance–Covariance
+        </label>
+      </div>
+
+      {!result ? (
+        <div className="text-sm text-gray-500 dark:text-muted-dark">Not enough history to backtest: at least {WINDOWS[0] + MIN_TEST_DAYS} days are needed.</div>
+      ) : (
+        <>
+          <div className="h-64 sm:h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="idx" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} tickFormatter={(v: number) => toPct(v)} />
+                <Tooltip formatter={(v: number) => toPct(v)} />
+                <Legend />
+                <Bar dataKey="Daily P&L" fill="#93c5fd" />
+                <Line type="stepAfter" dataKey="-VaR" dot={false} stroke="#ef4444" strokeWidth={2} />
+                <Scatter dataKey="Exception" fill="#dc2626" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="mt-4 grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <div className="text-gray-500 dark:text-muted-dark">Exceptions</div>
+              <div className="font-semibold">
+                {result.exceptions} / {result.observations} <span className="font-normal text-gray-500 dark:text-muted-dark">(expected {result.expected.toFixed(1)})</span>
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-500 dark:text-muted-dark">Basel traffic light</div>
+              <span className={`inline-block mt-0.5 px-2 py-0.5 rounded-full text-xs font-semibold uppercase ${ZONE_CLS[result.zone]}`}>{result.zone}</span>
+            </div>
+            <div>
+              <div className="text-gray-500 dark:text-muted-dark">Kupiec POF</div>
+              <div className="font-semibold">LR {result.kupiec.lr.toFixed(2)} · p = {result.kupiec.pValue.toFixed(3)}</div>
+            </div>
+            <div>
+              <div className="text-gray-500 dark:text-muted-dark">Christoffersen independence</div>
+              <div className="font-semibold">LR {result.christoffersen.lr.toFixed(2)} · p = {result.christoffersen.pValue.toFixed(3)}</div>
+            </div>
+          </div>
+          <div className="mt-3 text-xs text-gray-500 dark:text-muted-dark">
+            Conditional coverage LR {result.conditional.lr.toFixed(2)} (p = {result.conditional.pValue.toFixed(3)}). p-values below 0.05 reject a correctly specified VaR.
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
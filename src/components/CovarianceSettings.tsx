@@ -0,0 +1,70 @@
+import React from "react";
+import { COV_ESTIMATORS, type CovSettings } from "../lib/covariance";
+import type { CovarianceInfo } from "../lib/engine";
+import { toPct } from "../lib/format";
+
+type Props = {
+  value: CovSettings;
+  onChange: (next: CovSettings) => void;
+  info: CovarianceInfo | null; // from the latest report, null while computing
+};
+
+export default function CovarianceSettings({ value, onChange, info }: Props) {
+  return (
+    <div className="card">
+      <h2 className="font-medium mb-3">Covariance Estimator</h2>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {COV_ESTIMATORS.map((e) => (
+          <button
+            key={e.value}
+            onClick={() => onChange({ ...value, estimator: e.value })}
+            className={`px-3 py-1 rounded-full border border-gray-200 dark:border-gray-700 ${value.estimator === e.value ? "bg-blue-600 text-white" : "bg-white dark:bg-transparent"}`}
+          >
+            {e.label}
+          </button>
+        ))}
+        {value.estimator === "ewma" && (
+          <label className="flex items-center gap-1">
+            λ
+            <input
+              aria-label="EWMA decay"
+              type="number"
+              min={0.8}
+              max={0.999}
+              step={0.01}
+              value={value.lambda}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                if (v > 0 && v < 1) onChange({ ...value, lambda: v });
+              }}
+              className="w-20 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1"
+            />
+          </label>
+        )}
+      </div>
+
+      {info && info.estimator === value.estimator && (
+        <div className="mt-3 text-sm">
+          {info.shrinkage !== null && (
+            <div>
+              Shrinkage intensity <span className="font-semibold">{toPct(info.shrinkage, 1)}</span> towards constant correlation
+            </div>
+          )}
+          {info.repaired ? (
+            <div className="text-amber-600">
+              Not positive definite (smallest eigenvalue {info.minEigenvalue.toExponential(2)}): repaired by clipping eigenvalues.
+            </div>
+          ) : (
+            <div className="text-green-600">Positive definite.</div>
+          )}
+        </div>
+      )}
+
+      <div className="mt-4 text-xs text-gray-500 dark:text-muted-dark">
+        Drives portfolio volatility (wᵀΣw), variance–covariance and Monte Carlo VaR, betas and stress propagation.
+        EWMA weights day t by λ^(age), so recent data dominates; Ledoit–Wolf blends the sample matrix with a
+        constant-correlation target, which steadies estimates from short histories or many assets.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import React, { useState } from "react";
+import { parseDataset, type ImportedDataset, type ValueKind } from "../lib/importData";
+
+type Props = {
+  dataset: ImportedDataset | null;
+  onChange: (d: ImportedDataset | null) => void;
+};
+
+export default function DataImport({ dataset, onChange }: Props) {
+  const [text, setText] = useState("");
+  const [kind, setKind] = useState<ValueKind | "auto">("auto");
+  const [error, setError] = useState<string | null>(null);
+
+  function load(raw: string) {
+    try {
+      onChange(parseDataset(raw, { kind, benchmark: dataset?.benchmark }));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const raw = await file.text();
+    setText(raw);
+    load(raw);
+    e.target.value = "";
+  }
+
+  return (
+    <div className="card md:col-span-2">
+      <h3 className="font-medium mb-3">Import history (CSV or JSON)</h3>
+      <textarea
+        aria-label="Pasted price or return history"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={5}
+        placeholder={"date,MSFT,AAPL,SPY\n2024-01-02,370.87,185.64,472.65\n..."}
+        className="w-full rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent p-2 font-mono text-xs"
+      />
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
+        <input type="file" accept=".csv,.json,.txt,text/csv,application/json" onChange={onFile} className="text-xs" />
+        <label className="flex items-center gap-2">
+          Values
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as ValueKind | "auto")}
+            className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1"
+          >
+            <option value="auto">Auto-detect</option>
+            <option value="prices">Prices</option>
+            <option value="returns">Returns</option>
+          </select>
+        </label>
+        <button onClick={() => load(text)} className="px-3 py-1 rounded-xl border bg-blue-600 text-white border-blue-600 hover:bg-blue-700">Load</button>
+        {dataset && (
+          <button onClick={() => onChange(null)} className="px-3 py-1 rounded-xl border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-white/10">Use sample data</button>
+        )}
+      </div>
+
+      {error && <div className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+      {dataset && (
+        <div className="mt-4 grid gap-2 text-sm">
+          <div className="text-gray-600 dark:text-gray-300">
+            {dataset.series.length} series · {dataset.dates.length} aligned returns from {dataset.dates[0]} to {dataset.dates[dataset.dates.length - 1]} · detected <span className="font-semibold">{dataset.kind}</span>
+          </div>
+          <label className="flex items-center gap-2">
+            Benchmark
+            <select
+              value={dataset.benchmark}
+              onChange={(e) => onChange({ ...dataset, benchmark: e.target.value })}
+              className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1"
+            >
+              {dataset.series.map((s) => (
+                <option key={s.ticker} value={s.ticker}>{s.ticker}</option>
+              ))}
+            </select>
+          </label>
+          {(dataset.filled > 0 || dataset.dropped > 0) && (
+            <div className="text-xs text-gray-500 dark:text-muted-dark">
+              Missing days: {dataset.filled} price{dataset.filled === 1 ? "" : "s"} carried forward, {dataset.dropped} date{dataset.dropped === 1 ? "" : "s"} dropped.
+            </div>
+          )}
+          {dataset.rejected.length > 0 && (
+            <details className="text-xs text-amber-700 dark:text-amber-400">
+              <summary>{dataset.rejected.length} row{dataset.rejected.length === 1 ? "" : "s"} rejected</summary>
+              <ul className="mt-1 max-h-32 overflow-y-auto">
+                {dataset.rejected.map((r, i) => (
+                  <li key={i}>{r.where}: {r.reason}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import React, { useMemo } from "react";
+import { Area, AreaChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { DrawdownEpisode } from "../lib/engine";
+import { toPct } from "../lib/format";
+
+type Props = {
+  underwater: number[]; // drawdown from the running peak, ≤ 0
+  episode: DrawdownEpisode | null;
+  dates: string[] | null; // imported data only
+};
+
+export default function DrawdownChart({ underwater, episode, dates }: Props) {
+  const data = useMemo(() => underwater.map((d, i) => ({ idx: i, Drawdown: d })), [underwater]);
+  const when = (i: number) => dates?.[i] ?? `day ${i + 1}`;
+
+  return (
+    <div className="card">
+      <h3 className="font-medium mb-3">Drawdown (underwater)</h3>
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={data} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="idx" tick={{ fontSize: 12 }} />
+            <YAxis tick={{ fontSize: 12 }} tickFormatter={(v: number) => toPct(v, 0)} />
+            <Tooltip formatter={(v: number) => toPct(v)} labelFormatter={(i: number) => when(i)} />
+            <Area type="monotone" dataKey="Drawdown" stroke="#ef4444" fill="#fecaca" fillOpacity={0.6} />
+            {episode && <ReferenceLine x={episode.peak} stroke="#16a34a" strokeDasharray="4 3" label={{ value: "Peak", position: "insideTopLeft", fontSize: 11 }} />}
+            {episode && <ReferenceLine x={episode.trough} stroke="#dc2626" strokeDasharray="4 3" label={{ value: "Trough", position: "insideBottomLeft", fontSize: 11 }} />}
+            {episode?.recovery != null && (
+              <ReferenceLine x={episode.recovery} stroke="#2563eb" strokeDasharray="4 3" label={{ value: "Recovery", position: "insideTopRight", fontSize: 11 }} />
+            )}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+      {episode ? (
+        <div className="mt-2 text-sm">
+          Max drawdown <span className="font-semibold">{toPct(-underwater[episode.trough])}</span>: peak {when(episode.peak)} → trough {when(episode.trough)} ({episode.trough - episode.peak} days)
+          {episode.recovery != null
+            ? <> → recovered {when(episode.recovery)} ({episode.recovery - episode.trough} days)</>
+            : <> · not yet recovered</>}
+        </div>
+      ) : (
+        <div className="mt-2 text-sm text-gray-500 dark:text-muted-dark">No drawdown over the period.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import React from "react";
+import { COV_ESTIMATORS, type CovEstimator } from "../lib/covariance";
+import { toConf, toMoney, toPct } from "../lib/format";
+
+type Props = {
+  rows: Array<{ estimator: CovEstimator; volAnn: number; var: number }>;
+  current: CovEstimator;
+  conf: number;
+  horizonLabel: string;
+  notional: number;
+};
+
+// same weights under each covariance estimator, relative to the sample estimate
+export default function EstimatorComparison({ rows, current, conf, horizonLabel, notional }: Props) {
+  const base = rows.find((r) => r.estimator === "sample");
+  const delta = (x: number, b?: number) => (b ? `${x >= b ? "+" : ""}${toPct(x / b - 1, 1)}` : "—");
+  return (
+    <div className="card">
+      <h3 className="font-medium mb-3">Covariance Estimators Compared</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-muted-dark">
+              <th className="py-1 px-2">Estimator</th>
+              <th className="px-2 text-right">Volatility (ann.)</th>
+              <th className="px-2 text-right">Δ vs sample</th>
+              <th className="px-2 text-right">V-C VaR {toConf(conf)}, {horizonLabel}</th>
+              <th className="px-2 text-right">Δ vs sample</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.estimator} className={r.estimator === current ? "font-semibold" : undefined}>
+                <td className="py-1 px-2">{COV_ESTIMATORS.find((e) => e.value === r.estimator)?.label}{r.estimator === current && " (selected)"}</td>
+                <td className="px-2 text-right">{toPct(r.volAnn)}</td>
+                <td className="px-2 text-right">{delta(r.volAnn, base?.volAnn)}</td>
+                <td className="px-2 text-right">{toPct(r.var)} · {toMoney(r.var * notional)}</td>
+                <td className="px-2 text-right">{delta(r.var, base?.var)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import React from "react";
+import { downloadFile } from "../lib/download";
+import { correlationCsv, returnsCsv, summaryJson, type ReportInput } from "../lib/report";
+
+type Props = { report: ReportInput };
+
+const btnCls = "px-3 py-1 rounded-xl border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-white/10";
+
+export default function ExportBar({ report }: Props) {
+  const stamp = report.generatedAt.slice(0, 10);
+  return (
+    <div className="card print:hidden">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium mr-1">Export</span>
+        <button onClick={() => window.print()} className={btnCls}>Print / Save as PDF</button>
+        <button onClick={() => downloadFile(`portfolio-returns-${stamp}.csv`, returnsCsv(report), "text/csv")} className={btnCls}>Returns & NAV (CSV)</button>
+        <button onClick={() => downloadFile(`correlation-${stamp}.csv`, correlationCsv(report), "text/csv")} className={btnCls}>Correlation (CSV)</button>
+        <button onClick={() => downloadFile(`risk-summary-${stamp}.json`, summaryJson(report), "application/json")} className={btnCls}>Summary (JSON)</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import React, { useState } from "react";
+import { exposureSummary } from "../lib/engine";
+import { toMoney, toPct } from "../lib/format";
+
+type Props = {
+  assets: Array<{ ticker: string; color: string }>;
+  weights: number[]; // signed fractions of NAV
+  notional: number; // NAV in USD
+  cashRate: number; // annual
+  onChange: (weights: number[]) => void;
+  onCashRateChange: (rate: number) => void;
+};
+
+type Units = "pct" | "usd";
+
+const inputCls = "w-28 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1 text-right";
+
+// signed weights (or position notionals) with the remainder held as cash, for long/short and leveraged books
+export default function ExposureEditor({ assets, weights, notional, cashRate, onChange, onCashRateChange }: Props) {
+  const [units, setUnits] = useState<Units>("pct");
+  const x = exposureSummary(weights);
+  const scale = units === "pct" ? 100 : notional;
+
+  function setPosition(i: number, value: number) {
+    const next = [...weights];
+    next[i] = units === "pct" || notional === 0 ? value / 100 : value / notional;
+    onChange(next);
+  }
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        Enter as
+        {(["pct", "usd"] as Units[]).map((u) => (
+          <button
+            key={u}
+            onClick={() => setUnits(u)}
+            className={`px-3 py-1 rounded-full border border-gray-200 dark:border-gray-700 ${units === u ? "bg-blue-600 text-white" : "bg-white dark:bg-transparent"}`}
+          >
+            {u === "pct" ? "% of NAV" : "USD notional"}
+          </button>
+        ))}
+        <span className="text-xs text-gray-500 dark:text-muted-dark">NAV {toMoney(notional)} (set in Step 3)</span>
+      </div>
+
+      <table className="text-sm">
+        <tbody>
+          {assets.map((a, i) => (
+            <tr key={a.ticker}>
+              <td className="py-1 pr-2 font-medium" style={{ color: a.color }}>{a.ticker}</td>
+              <td className="py-1 pr-2">
+                <input
+                  aria-label={`${a.ticker} position`}
+                  type="number"
+                  step={units === "pct" ? 1 : 10000}
+                  value={+((weights[i] ?? 0) * scale).toFixed(units === "pct" ? 2 : 0)}
+                  onChange={(e) => setPosition(i, parseFloat(e.target.value) || 0)}
+                  className={inputCls}
+                />
+                {units === "pct" && " %"}
+              </td>
+              <td className="py-1 text-right text-gray-500 dark:text-muted-dark">{units === "pct" ? toMoney((weights[i] ?? 0) * notional) : toPct(weights[i] ?? 0)}</td>
+            </tr>
+          ))}
+          <tr className="border-t border-gray-200 dark:border-gray-800">
+            <td className="py-1 pr-2 font-medium">{x.cash < 0 ? "Financing" : "Cash"}</td>
+            <td className="py-1 pr-2">{units === "pct" ? toPct(x.cash) : toMoney(x.cash * notional)}</td>
+            <td className="py-1 text-right">
+              <label className="flex items-center justify-end gap-1 text-xs text-gray-500 dark:text-muted-dark">
+                at
+                <input
+                  aria-label="Cash rate (%)"
+                  type="number"
+                  step={0.25}
+                  value={+(cashRate * 100).toFixed(2)}
+                  onChange={(e) => onCashRateChange((parseFloat(e.target.value) || 0) / 100)}
+                  className="w-16 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-1 py-0.5 text-right"
+                />
+                % p.a.
+              </label>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+        <span>Gross <span className="font-semibold">{toPct(x.gross, 1)}</span></span>
+        <span>Net <span className="font-semibold">{toPct(x.net, 1)}</span></span>
+        <span>Long {toPct(x.long, 1)}</span>
+        <span>Short {toPct(x.short, 1)}</span>
+        <span>Leverage <span className="font-semibold">{x.leverage.toFixed(2)}×</span></span>
+      </div>
+      <div className="text-xs text-gray-500 dark:text-muted-dark">
+        Weights are used as entered (no normalization). Whatever is not invested sits in cash; a negative cash line is borrowing, charged at the same rate.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import React from "react";
+import type { LimitCheck, LimitStatus } from "../lib/limits";
+
+type Props = {
+  check?: LimitCheck; // no badge when the metric has no active limit
+};
+
+const STATUS_CLS: Record<LimitStatus, string> = {
+  green: "bg-green-600 text-white",
+  amber: "bg-amber-500 text-white",
+  red: "bg-red-600 text-white",
+};
+
+export default function LimitBadge({ check }: Props) {
+  if (!check) return null;
+  const used = Number.isFinite(check.utilisation) ? `${Math.round(check.utilisation * 100)}% of limit` : "outside limit";
+  return (
+    <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${STATUS_CLS[check.status]}`}>
+      {check.status === "red" ? `Breach · ${used}` : used}
+    </span>
+  );
+}
@@ -0,0 +1,63 @@
+import React from "react";
+import LimitBadge from "./LimitBadge";
+import { worstStatus, type LimitCheck } from "../lib/limits";
+import { toPct } from "../lib/format";
+
+type Props = {
+  title: string;
+  checks: LimitCheck[];
+  note?: string;
+  all?: boolean; // list limits with room to spare as well
+};
+
+const fmt = (c: LimitCheck, x: number) => (c.key === "beta" ? x.toFixed(2) : toPct(x, c.key === "weight" ? 1 : 2));
+
+function limitText(c: LimitCheck) {
+  if (c.min != null && c.max != null) return `${fmt(c, c.min)} – ${fmt(c, c.max)}`;
+  return c.max != null ? `≤ ${fmt(c, c.max)}` : `≥ ${fmt(c, c.min!)}`;
+}
+
+// every violated limit first, then the ones close to it; a one-line all-clear otherwise
+export default function LimitSummary({ title, checks, note, all = false }: Props) {
+  const breaches = checks.filter((c) => c.status === "red");
+  const shown = [...breaches, ...checks.filter((c) => c.status === "amber"), ...(all ? checks.filter((c) => c.status === "green") : [])];
+  const worst = worstStatus(checks);
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="font-medium">{title}</h3>
+        {checks.length > 0 && (
+          <span className={`text-sm font-semibold ${worst === "red" ? "text-red-600 dark:text-red-400" : worst === "amber" ? "text-amber-600" : "text-green-600"}`}>
+            {breaches.length ? `${breaches.length} limit${breaches.length > 1 ? "s" : ""} breached` : worst === "amber" ? "Within limits, some close" : "All within limits"}
+          </span>
+        )}
+      </div>
+      {checks.length === 0 ? (
+        <div className="text-sm text-gray-500 dark:text-muted-dark">No limits set (Step 3).</div>
+      ) : shown.length > 0 ? (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-muted-dark">
+              <th className="py-1 px-2">Limit</th>
+              <th className="px-2 text-right">Value</th>
+              <th className="px-2 text-right">Limit</th>
+              <th className="px-2 text-right">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((c) => (
+              <tr key={c.key}>
+                <td className="py-1 px-2 font-medium">{c.label}{c.ticker && ` (${c.ticker})`}</td>
+                <td className="px-2 text-right">{fmt(c, c.value)}</td>
+                <td className="px-2 text-right">{limitText(c)}</td>
+                <td className="px-2 text-right"><LimitBadge check={c} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+      {note && <div className="mt-2 text-xs text-gray-500 dark:text-muted-dark">{note}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React from "react";
+import { DEFAULT_LIMITS, type RiskLimits } from "../lib/limits";
+
+type Props = {
+  limits: RiskLimits;
+  varLabel: string; // e.g. "1 day 95% (HS)", the VaR the limit applies to
+  onChange: (limits: RiskLimits) => void;
+};
+
+type Field = Exclude<keyof RiskLimits, "warnAt">;
+
+const FIELDS: Array<{ key: Field; label: string; pct: boolean }> = [
+  { key: "maxVaR", label: "Max VaR", pct: true },
+  { key: "maxVol", label: "Max volatility (ann.)", pct: true },
+  { key: "minBeta", label: "Min beta", pct: false },
+  { key: "maxBeta", label: "Max beta", pct: false },
+  { key: "maxDrawdown", label: "Max drawdown", pct: true },
+  { key: "maxWeight", label: "Max single-asset weight", pct: true },
+];
+
+const inputCls = "w-20 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-1 py-0.5 text-right disabled:opacity-40";
+
+export default function LimitsEditor({ limits, varLabel, onChange }: Props) {
+  const set = (p: Partial<RiskLimits>) => onChange({ ...limits, ...p });
+
+  return (
+    <div className="card">
+      <h2 className="font-medium mb-3">Risk Limits</h2>
+      <table className="text-sm">
+        <tbody>
+          {FIELDS.map((f) => {
+            const v = limits[f.key];
+            const scale = f.pct ? 100 : 1;
+            return (
+              <tr key={f.key}>
+                <td className="py-1 pr-3">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={v != null} onChange={(e) => set({ [f.key]: e.target.checked ? DEFAULT_LIMITS[f.key] : null })} />
+                    {f.label}
+                  </label>
+                </td>
+                <td className="py-1">
+                  <input
+                    aria-label={f.label}
+                    type="number"
+                    step={f.pct ? 0.5 : 0.05}
+                    disabled={v == null}
+                    value={v == null ? "" : +(v * scale).toFixed(2)}
+                    onChange={(e) => {
+                      const x = parseFloat(e.target.value);
+                      if (Number.isFinite(x)) set({ [f.key]: x / scale });
+                    }}
+                    className={inputCls}
+                  />
+                  {f.pct && " %"}
+                </td>
+              </tr>
+            );
+          })}
+          <tr className="border-t border-gray-200 dark:border-gray-800">
+            <td className="py-1 pr-3">Amber from</td>
+            <td className="py-1">
+              <input
+                aria-label="Amber threshold (% of limit)"
+                type="number"
+                min={1}
+                max={100}
+                step={5}
+                value={Math.round(limits.warnAt * 100)}
+                onChange={(e) => set({ warnAt: Math.min(1, Math.max(0.01, (parseFloat(e.target.value) || 0) / 100)) })}
+                className={inputCls}
+              />{" "}
+              % of limit
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      <div className="mt-2 text-xs text-gray-500 dark:text-muted-dark">
+        The VaR limit applies to the {varLabel} VaR. Limits are saved with the portfolio and in shared links.
+      </div>
+    </div>
+  );
+}
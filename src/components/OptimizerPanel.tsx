@@ -0,0 +1,226 @@
+import React, { useMemo, useState } from "react";
+import { CartesianGrid, Legend, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis } from "recharts";
+import {
+  checkBounds,
+  efficientFrontier,
+  maxSharpe,
+  minVariance,
+  portfolioStats,
+  riskParity,
+  targetVolatility,
+  type Bounds,
+} from "../lib/optimizer";
+import { worstStatus, type LimitCheck } from "../lib/limits";
+import { toPct } from "../lib/format";
+
+type Props = {
+  assets: Array<{ ticker: string; color: string }>;
+  w: number[]; // current normalised weights
+  means: number[]; // daily mean return per asset
+  covMatrix: number[][]; // daily covariance
+  annFactor: number;
+  onApply: (w: number[]) => void;
+  checkLimits?: (w: number[]) => LimitCheck[]; // risk limits a suggestion would breach, checked before applying
+};
+
+type Limit = { min: number; max: number };
+
+const inputCls = "w-16 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-1 py-0.5 text-right";
+
+export default function OptimizerPanel({ assets, w, means, covMatrix, annFactor, onApply, checkLimits }: Props) {
+  const [rf, setRf] = useState(0.02); // annual
+  const [targetVol, setTargetVol] = useState(0.1); // annual
+  const [longOnly, setLongOnly] = useState(true);
+  const [limits, setLimits] = useState<Record<string, Limit>>({});
+
+  const bounds: Bounds = useMemo(() => {
+    const floor = longOnly ? 0 : -1;
+    return {
+      min: assets.map((a) => Math.max(floor, limits[a.ticker]?.min ?? floor)),
+      max: assets.map((a) => limits[a.ticker]?.max ?? 1),
+    };
+  }, [assets, limits, longOnly]);
+
+  // everything is solved in annual units
+  const mu = useMemo(() => means.map((m) => m * annFactor), [means, annFactor]);
+  const cov = useMemo(() => covMatrix.map((row) => row.map((c) => c * annFactor)), [covMatrix, annFactor]);
+
+  const boundsError = useMemo(() => {
+    try {
+      checkBounds(bounds);
+      return null;
+    } catch (e) {
+      return e instanceof Error ? e.message : String(e);
+    }
+  }, [bounds]);
+
+  // one memo per solver, so editing the target volatility or the risk-free rate re-solves only what uses it
+  const ok = boundsError === null;
+  const frontier = useMemo(() => (ok ? efficientFrontier(mu, cov, bounds) : []), [ok, mu, cov, bounds]);
+  const minVarW = useMemo(() => (ok ? minVariance(cov, bounds) : null), [ok, cov, bounds]);
+  const parityW = useMemo(() => (ok ? riskParity(cov, bounds) : null), [ok, cov, bounds]);
+  const sharpeW = useMemo(() => (ok ? maxSharpe(mu, cov, rf, bounds) : null), [ok, mu, cov, rf, bounds]);
+  const targetW = useMemo(() => (ok ? targetVolatility(mu, cov, targetVol, bounds) : null), [ok, mu, cov, targetVol, bounds]);
+
+  const solved = useMemo(() => {
+    if (!minVarW || !parityW || !sharpeW || !targetW) return { error: boundsError, frontier: [], solutions: [] };
+    const stats = (x: number[]) => portfolioStats(mu, cov, x, rf);
+    return {
+      error: null,
+      frontier,
+      solutions: [
+        { name: "Minimum variance", ...stats(minVarW) },
+        { name: "Risk parity", ...stats(parityW) },
+        { name: "Maximum Sharpe", ...stats(sharpeW) },
+        { name: `Target vol ${toPct(targetVol, 0)}`, ...stats(targetW) },
+      ],
+    };
+  }, [boundsError, frontier, minVarW, parityW, sharpeW, targetW, mu, cov, rf, targetVol]);
+
+  const suggestionChecks = useMemo(() => solved.solutions.map((s) => checkLimits?.(s.w) ?? []), [solved, checkLimits]);
+
+  const current = portfolioStats(mu, cov, w, rf);
+
+  function setLimit(ticker: string, key: keyof Limit, raw: string) {
+    const v = parseFloat(raw) / 100;
+    if (Number.isNaN(v)) return;
+    const prev = limits[ticker] ?? { min: longOnly ? 0 : -1, max: 1 };
+    setLimits({ ...limits, [ticker]: { ...prev, [key]: v } });
+  }
+
+  const point = (s: { vol: number; ret: number }) => ({ vol: s.vol, ret: s.ret });
+
+  return (
+    <div className="card">
+      <h2 className="font-medium mb-3">Suggest weights</h2>
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          Risk-free rate
+          <input type="number" step={0.25} value={+(rf * 100).toFixed(2)} onChange={(e) => setRf((parseFloat(e.target.value) || 0) / 100)} className={inputCls} />%
+        </label>
+        <label className="flex items-center gap-2">
+          Target volatility
+          <input type="number" min={0} step={1} value={+(targetVol * 100).toFixed(2)} onChange={(e) => setTargetVol(Math.max(0, parseFloat(e.target.value) || 0) / 100)} className={inputCls} />%
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={longOnly} onChange={(e) => setLongOnly(e.target.checked)} /> Long-only
+        </label>
+      </div>
+
+      <details className="mt-3 text-sm">
+        <summary className="cursor-pointer">Per-asset bounds</summary>
+        <table className="mt-2 text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-muted-dark">
+              <th className="py-1 pr-3">Asset</th>
+              <th className="pr-3">Min %</th>
+              <th>Max %</th>
+            </tr>
+          </thead>
+          <tbody>
+            {assets.map((a, i) => (
+              <tr key={a.ticker}>
+                <td className="py-1 pr-3 font-medium" style={{ color: a.color }}>{a.ticker}</td>
+                <td className="pr-3">
+                  <input aria-label={`${a.ticker} minimum weight`} type="number" step={5} value={+(bounds.min[i] * 100).toFixed(2)} onChange={(e) => setLimit(a.ticker, "min", e.target.value)} className={inputCls} />
+                </td>
+                <td>
+                  <input aria-label={`${a.ticker} maximum weight`} type="number" step={5} value={+(bounds.max[i] * 100).toFixed(2)} onChange={(e) => setLimit(a.ticker, "max", e.target.value)} className={inputCls} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+
+      {solved.error ? (
+        <div className="mt-3 text-sm text-red-600 dark:text-red-400">{solved.error}</div>
+      ) : (
+        <>
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-sm min-w-[560px]">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-muted-dark">
+                  <th className="py-1 px-2">Portfolio</th>
+                  <th className="px-2 text-right">Return</th>
+                  <th className="px-2 text-right">Vol</th>
+                  <th className="px-2 text-right">Sharpe</th>
+                  {assets.map((a) => (
+                    <th key={a.ticker} className="px-2 text-right" style={{ color: a.color }}>{a.ticker}</th>
+                  ))}
+                  {checkLimits && <th className="px-2 text-right">Limits</th>}
+                  <th className="px-2" />
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="text-gray-500 dark:text-muted-dark">
+                  <td className="py-1 px-2">Current</td>
+                  <td className="px-2 text-right">{toPct(current.ret, 1)}</td>
+                  <td className="px-2 text-right">{toPct(current.vol, 1)}</td>
+                  <td className="px-2 text-right">{current.sharpe.toFixed(2)}</td>
+                  {w.map((x, i) => (
+                    <td key={i} className="px-2 text-right">{toPct(x, 1)}</td>
+                  ))}
+                  {checkLimits && <td className="px-2" />}
+                  <td className="px-2" />
+                </tr>
+                {solved.solutions.map((s, k) => {
+                  const shorts = s.w.some((x) => x < -1e-9);
+                  const checks = suggestionChecks[k];
+                  const breached = checks.filter((c) => c.status === "red");
+                  const worst = worstStatus(checks);
+                  return (
+                    <tr key={s.name}>
+                      <td className="py-1 px-2 font-medium">{s.name}</td>
+                      <td className="px-2 text-right">{toPct(s.ret, 1)}</td>
+                      <td className="px-2 text-right">{toPct(s.vol, 1)}</td>
+                      <td className="px-2 text-right">{s.sharpe.toFixed(2)}</td>
+                      {s.w.map((x, i) => (
+                        <td key={i} className="px-2 text-right">{toPct(x, 1)}</td>
+                      ))}
+                      {checkLimits && (
+                        <td
+                          className={`px-2 text-right whitespace-nowrap ${worst === "red" ? "text-red-600 dark:text-red-400 font-semibold" : worst === "amber" ? "text-amber-600" : "text-green-600"}`}
+                          title={breached.map((c) => `${c.label}${c.ticker ? ` (${c.ticker})` : ""}: ${Number.isFinite(c.utilisation) ? `${Math.round(c.utilisation * 100)}% of limit` : "outside limit"}`).join("\n") || undefined}
+                        >
+                          {breached.length ? `${breached.length} breach${breached.length > 1 ? "es" : ""}` : worst === "amber" ? "close" : "ok"}
+                        </td>
+                      )}
+                      <td className="px-2 text-right">
+                        <button
+                          onClick={() => onApply(s.w)}
+                          title={[shorts && "Switches Step 2 to long/short weights", breached.length > 0 && `Would breach: ${breached.map((c) => c.label).join(", ")}`].filter(Boolean).join(". ") || undefined}
+                          className="px-2 py-0.5 rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-white/10"
+                        >
+                          Apply
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="h-64 sm:h-72 mt-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" dataKey="vol" name="Volatility" tick={{ fontSize: 12 }} tickFormatter={(v: number) => toPct(v, 0)} domain={["auto", "auto"]} />
+                <YAxis type="number" dataKey="ret" name="Return" tick={{ fontSize: 12 }} tickFormatter={(v: number) => toPct(v, 0)} domain={["auto", "auto"]} />
+                <Tooltip formatter={(v: number) => toPct(v, 1)} />
+                <Legend />
+                <Scatter name="Efficient frontier" data={solved.frontier.map(point)} line={{ stroke: "#2563eb", strokeWidth: 2 }} fill="#2563eb" shape={() => <g />} />
+                <Scatter name="Suggested" data={solved.solutions.map(point)} fill="#16a34a" />
+                <Scatter name="Current" data={[point(current)]} fill="#ef4444" />
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+      <div className="mt-3 text-xs text-gray-500 dark:text-muted-dark">
+        Annualised from the sample means and covariance matrix. Estimates are noisy: treat suggestions as a starting point.
+      </div>
+    </div>
+  );
+}
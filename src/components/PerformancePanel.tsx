@@ -0,0 +1,55 @@
+import React, { useMemo } from "react";
+import { toPct } from "../lib/format";
+import { performanceMetrics } from "../lib/performance";
+
+type Props = {
+  returns: number[]; // daily portfolio returns
+  bench: { ticker: string; returns: number[] };
+  annFactor: number;
+  rf: number; // annual risk-free rate
+  onRfChange: (rf: number) => void;
+};
+
+const inputCls = "w-16 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-1 py-0.5 text-right";
+
+export default function PerformancePanel({ returns, bench, annFactor, rf, onRfChange }: Props) {
+  const m = useMemo(() => performanceMetrics(returns, bench.returns, rf, annFactor), [returns, bench, rf, annFactor]);
+
+  const tiles: Array<{ label: string; value: string; note?: string }> = [
+    { label: "Return (annualized)", value: toPct(m.annReturn), note: `${bench.ticker} ${toPct(m.benchAnnReturn)}` },
+    { label: "Sharpe", value: m.sharpe.toFixed(2), note: `σ ${toPct(m.annVol)}` },
+    { label: "Sortino", value: m.sortino.toFixed(2), note: "downside deviation" },
+    { label: "Calmar", value: m.calmar.toFixed(2), note: "return / max drawdown" },
+    { label: "Information ratio", value: m.informationRatio.toFixed(2), note: `vs ${bench.ticker}` },
+    { label: "Tracking error", value: toPct(m.trackingError), note: "annualized" },
+    { label: "Jensen's alpha", value: toPct(m.alpha), note: `β ${m.beta.toFixed(2)}` },
+    { label: "Up capture", value: toPct(m.upCapture, 0), note: `${bench.ticker} up days` },
+    { label: "Down capture", value: toPct(m.downCapture, 0), note: `${bench.ticker} down days` },
+    { label: "Skewness", value: m.skewness.toFixed(2), note: "daily returns" },
+    { label: "Excess kurtosis", value: m.excessKurtosis.toFixed(2), note: "0 for a normal" },
+  ];
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="font-medium">Performance & Risk-adjusted Return</h3>
+        <label className="flex items-center gap-1 text-sm">
+          Risk-free rate
+          <input type="number" step={0.25} value={+(rf * 100).toFixed(2)} onChange={(e) => onRfChange((parseFloat(e.target.value) || 0) / 100)} className={inputCls} />%
+        </label>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3 text-sm">
+        {tiles.map((t) => (
+          <div key={t.label} className="rounded-xl border p-3 bg-white dark:bg-white/5 border-gray-200 dark:border-gray-800">
+            <div className="text-gray-500 dark:text-muted-dark">{t.label}</div>
+            <div className="text-lg font-semibold">{t.value}</div>
+            {t.note && <div className="text-xs text-gray-500 dark:text-muted-dark">{t.note}</div>}
+          </div>
+        ))}
+      </div>
+      <div className="mt-3 text-xs text-gray-500 dark:text-muted-dark">
+        Ratios use arithmetic mean excess returns; capture ratios compare average daily returns on the benchmark's up and down days.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useMemo } from "react";
+import { Area, AreaChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { maxDrawdown, type Asset } from "../lib/engine";
+import { annualizedReturn } from "../lib/performance";
+import { REBALANCE_POLICIES, simulateRebalancing, type RebalanceSettings } from "../lib/rebalance";
+import { historicalTail } from "../lib/risk";
+import { std } from "../lib/stats";
+import { toConf, toPct } from "../lib/format";
+
+type Props = {
+  assets: Array<Asset & { color: string }>;
+  w: number[]; // target weights
+  idealReturns: number[]; // constant weights, rebalanced daily for free
+  cashDaily: number; // daily return on the cash line, 0 in normalized mode
+  conf: number;
+  horizon: number;
+  horizonLabel: string;
+  annFactor: number;
+  dates: string[] | null; // imported data only; calendar policies then use real month ends
+  settings: RebalanceSettings;
+  onChange: (settings: RebalanceSettings) => void;
+};
+
+const inputCls = "w-16 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-1 py-0.5 text-right";
+
+function pathStats(returns: number[], conf: number, horizon: number, annFactor: number) {
+  const { nav, maxDD, underwater } = maxDrawdown(returns);
+  const tail = historicalTail(returns, conf, horizon);
+  return { nav, maxDD, underwater, annReturn: annualizedReturn(returns, annFactor), volAnn: std(returns) * Math.sqrt(annFactor), var: tail.var, es: tail.es };
+}
+
+// the NAV path under a realistic rebalancing policy, against the constant-weight path used everywhere else
+export default function RebalancePanel({ assets, w, idealReturns, cashDaily, conf, horizon, horizonLabel, annFactor, dates, settings, onChange }: Props) {
+  const set = (p: Partial<RebalanceSettings>) => onChange({ ...settings, ...p });
+
+  const sim = useMemo(() => simulateRebalancing(assets, w, settings, cashDaily, dates), [assets, w, settings, cashDaily, dates]);
+  const ideal = useMemo(() => pathStats(idealReturns, conf, horizon, annFactor), [idealReturns, conf, horizon, annFactor]);
+  const actual = useMemo(() => pathStats(sim.returns, conf, horizon, annFactor), [sim, conf, horizon, annFactor]);
+
+  const years = sim.returns.length / annFactor || 1;
+  const policyLabel = REBALANCE_POLICIES.find((p) => p.value === settings.policy)?.label ?? settings.policy;
+
+  const navData = useMemo(
+    () => ideal.nav.map((v, i) => ({ idx: i, "Constant weights": v, [policyLabel]: actual.nav[i], Drawdown: actual.underwater[i] })),
+    [ideal, actual, policyLabel],
+  );
+  const weightData = useMemo(
+    () => sim.weights.map((row, i) => ({ idx: i, ...Object.fromEntries(assets.map((a, j) => [a.ticker, row[j]])) })),
+    [sim, assets],
+  );
+
+  const tiles: Array<{ label: string; value: string; note?: string }> = [
+    { label: "Rebalances", value: String(sim.rebalances.length), note: `${(sim.rebalances.length / years).toFixed(1)} per year` },
+    { label: "Turnover (annualized)", value: toPct(sim.turnover / years, 0), note: `${toPct(sim.turnover, 0)} of NAV over the period` },
+    { label: "Cost drag (annualized)", value: toPct(sim.costs / years), note: `${toPct(sim.costs)} in total at ${settings.costBps} bps` },
+    { label: "Return vs constant weights", value: toPct(actual.annReturn - ideal.annReturn), note: "annualized, after costs" },
+  ];
+
+  const rows: Array<{ label: string; key: "annReturn" | "volAnn" | "maxDD" | "var" | "es" }> = [
+    { label: "Return (annualized)", key: "annReturn" },
+    { label: "Volatility (annualized)", key: "volAnn" },
+    { label: "Max drawdown", key: "maxDD" },
+    { label: `Historical VaR ${toConf(conf)}, ${horizonLabel}`, key: "var" },
+    { label: `Historical ES ${toConf(conf)}, ${horizonLabel}`, key: "es" },
+  ];
+
+  return (
+    <div className="card">
+      <h3 className="font-medium mb-3">Rebalancing & Transaction Costs</h3>
+      <div className="flex flex-wrap items-center gap-2 text-sm mb-3">
+        {REBALANCE_POLICIES.map((p) => (
+          <button
+            key={p.value}
+            onClick={() => set({ policy: p.value })}
+            className={`px-3 py-1 rounded-full border border-gray-200 dark:border-gray-700 ${settings.policy === p.value ? "bg-blue-600 text-white" : "bg-white dark:bg-transparent"}`}
+          >
+            {p.label}
+          </button>
+        ))}
+        {settings.policy === "threshold" && (
+          <label className="flex items-center gap-1">
+            band ±
+            <input type="number" min={0.5} step={0.5} value={+(settings.band * 100).toFixed(2)} onChange={(e) => set({ band: Math.max(0.005, (parseFloat(e.target.value) || 0) / 100) })} className={inputCls} />%
+          </label>
+        )}
+        <label className="flex items-center gap-1">
+          cost
+          <input type="number" min={0} step={1} value={settings.costBps} onChange={(e) => set({ costBps: Math.max(0, parseFloat(e.target.value) || 0) })} className={inputCls} />
+          bps
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 text-sm">
+        {tiles.map((t) => (
+          <div key={t.label} className="rounded-xl border p-3 bg-white dark:bg-white/5 border-gray-200 dark:border-gray-800">
+            <div className="text-gray-500 dark:text-muted-dark">{t.label}</div>
+            <div className="text-lg font-semibold">{t.value}</div>
+            {t.note && <div className="text-xs text-gray-500 dark:text-muted-dark">{t.note}</div>}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-muted-dark">
+              <th className="py-1 px-2">Metric</th>
+              <th className="px-2 text-right">Constant weights</th>
+              <th className="px-2 text-right">{policyLabel}</th>
+              <th className="px-2 text-right">Difference</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.key}>
+                <td className="py-1 px-2 font-medium">{r.label}</td>
+                <td className="px-2 text-right">{toPct(ideal[r.key])}</td>
+                <td className="px-2 text-right">{toPct(actual[r.key])}</td>
+                <td className="px-2 text-right">{actual[r.key] >= ideal[r.key] ? "+" : ""}{toPct(actual[r.key] - ideal[r.key])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 grid gap-6 lg:grid-cols-2">
+        <div>
+          <div className="text-sm font-medium mb-2">NAV and drawdown</div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={navData} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="idx" tick={{ fontSize: 12 }} />
+                <YAxis yAxisId="nav" tick={{ fontSize: 12 }} />
+                <YAxis yAxisId="dd" orientation="right" tick={{ fontSize: 12 }} tickFormatter={(v: number) => toPct(v, 0)} />
+                <Tooltip />
+                <Legend />
+                <Line yAxisId="nav" type="monotone" dataKey="Constant weights" dot={false} stroke="#6b7280" strokeWidth={1.5} strokeDasharray="4 3" />
+                <Line yAxisId="nav" type="monotone" dataKey={policyLabel} dot={false} stroke="#2563eb" strokeWidth={2} />
+                <Line yAxisId="dd" type="monotone" dataKey="Drawdown" dot={false} stroke="#ef4444" strokeWidth={1} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+        <div>
+          <div className="text-sm font-medium mb-2">Drifting weights</div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={weightData} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="idx" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} tickFormatter={(v: number) => toPct(v, 0)} />
+                <Tooltip formatter={(v: number) => toPct(v, 1)} />
+                <Legend />
+                {assets.map((a) => (
+                  <Area key={a.ticker} type="monotone" dataKey={a.ticker} stackId="w" stroke={a.color} fill={a.color} fillOpacity={0.5} />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+      <div className="mt-2 text-xs text-gray-500 dark:text-muted-dark">
+        Between rebalances holdings move with prices; each rebalance trades back to the target weights and pays the cost on the notional traded.
+        Calendar policies use month/quarter ends of imported dates, or every 21/63 trading days on sample data. The rest of Step 4 assumes constant weights.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import React from "react";
+import { toConf, toMoney, toPct } from "../lib/format";
+import type { ReportInput } from "../lib/report";
+
+type Props = { report: ReportInput; methodLabel: string; horizonLabel: string };
+
+// print-only cover for the Step 4 report: inputs and methodology
+export default function ReportHeader({ report, methodLabel, horizonLabel }: Props) {
+  const { settings, assets, w, dates } = report;
+  return (
+    <div className="hidden print:block break-inside-avoid">
+      <h1 className="text-xl font-semibold">Portfolio Risk Report</h1>
+      <div className="text-xs text-gray-500">Generated {new Date(report.generatedAt).toLocaleString()}</div>
+
+      <h2 className="font-medium mt-4 mb-1">Inputs</h2>
+      <div className="text-sm">
+        Data: {report.source === "imported" ? `imported history, ${dates?.[0]} to ${dates?.[dates.length - 1]}` : "simulated sample returns"} ·{" "}
+        {report.pReturns.length} daily observations · benchmark {report.bench.ticker}
+      </div>
+      <div className="text-sm">
+        VaR/ES: {methodLabel}, {toConf(settings.conf)}, {horizonLabel} · notional {toMoney(settings.notional)} · benchmark shock {toPct(settings.shock)}
+      </div>
+      <table className="text-sm mt-2">
+        <tbody>
+          {assets.map((a, i) => (
+            <tr key={a.ticker}>
+              <td className="pr-4 font-medium">{a.ticker}</td>
+              <td className="text-right">{toPct(w[i] ?? 0)}</td>
+            </tr>
+          ))}
+          {settings.weightMode === "exposure" && (
+            <tr>
+              <td className="pr-4 font-medium">Cash</td>
+              <td className="text-right">{toPct(1 - w.reduce((s, x) => s + x, 0))} at {toPct(settings.cashRate)} p.a.</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <h2 className="font-medium mt-4 mb-1">Methodology</h2>
+      <ul className="text-xs list-disc pl-5 space-y-0.5">
+        {settings.weightMode === "exposure" && <li>Weights are signed fractions of NAV used as entered (long/short, leverage); the remainder is cash or financing.</li>}
+        <li>
+          Volatility is √(wᵀΣw), annualised with √252, using the {settings.covariance.estimator} covariance estimator
+          {settings.covariance.shrinkage !== null && <> (shrinkage {toPct(settings.covariance.shrinkage, 1)})</>}
+          {settings.covariance.repaired && <>, repaired to be positive definite</>}.
+        </li>
+        <li>Historical VaR/ES use the empirical distribution of (overlapping, compounded) horizon returns.</li>
+        <li>Parametric VaR/ES assume normal returns with that volatility and √t scaling; modified VaR applies the Cornish–Fisher expansion.</li>
+        <li>Monte Carlo draws {settings.mcPaths.toLocaleString()} multivariate-normal scenarios (seed {settings.mcSeed}) from the estimated covariance matrix.</li>
+        <li>Beta is the weighted average of asset betas against the benchmark; stress results propagate shocks linearly.</li>
+      </ul>
+    </div>
+  );
+}
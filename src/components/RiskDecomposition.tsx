@@ -0,0 +1,135 @@
+import React, { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, Legend, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { historicalVaRContributions, parametricVaRContributions, scaleTo, volatilityContributions, type Decomposition } from "../lib/decomposition";
+import { toConf, toPct } from "../lib/format";
+
+type Props = {
+  assets: Array<{ ticker: string; color: string; returns: number[] }>;
+  w: number[];
+  covMatrix: number[][];
+  means: number[]; // daily mean return per asset
+  conf: number;
+  annFactor: number;
+  cashReturn: number; // daily return of the cash line (exposure mode)
+  reported: { vol: number; parametricVaR: number; historicalVaR: number }; // the engine's 1-day figures
+};
+
+// the contributions are reconciled against the figure the engine reports, not their own total
+function adds(d: Decomposition, reported: number) {
+  return Math.abs(d.sum - reported) <= 1e-9 * Math.max(1, Math.abs(reported));
+}
+
+export default function RiskDecomposition({ assets, w, covMatrix, means, conf, annFactor, cashReturn, reported }: Props) {
+  const vol = useMemo(() => volatilityContributions(covMatrix, w, annFactor), [covMatrix, w, annFactor]);
+  const pvar = useMemo(() => parametricVaRContributions(covMatrix, means, w, conf, cashReturn), [covMatrix, means, w, conf, cashReturn]);
+  // the neighbour average only approximates the quantile, so its components are scaled to the reported VaR
+  const hvar = useMemo(
+    () => scaleTo(historicalVaRContributions(assets.map((a) => a.returns), w, conf, cashReturn), reported.historicalVaR),
+    [assets, w, conf, cashReturn, reported.historicalVaR],
+  );
+
+  const invested = w.reduce((s, x) => s + x, 0);
+
+  const measures = [
+    { label: "Volatility (ann.)", d: vol },
+    { label: "Parametric VaR", d: pvar },
+    { label: "Historical VaR", d: hvar },
+  ];
+
+  const chartData = measures.map((m) => {
+    const row: Record<string, number | string> = { measure: m.label };
+    assets.forEach((a, i) => (row[a.ticker] = m.d.items[i].pct));
+    return row;
+  });
+
+  return (
+    <div className="card">
+      <h3 className="font-medium mb-3">Risk Decomposition (1-day VaR at {toConf(conf)})</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm min-w-[760px]">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-muted-dark">
+              <th className="py-1 px-2">Asset</th>
+              <th className="px-2 text-right">Weight</th>
+              <th className="px-2 text-right">Marginal σ</th>
+              <th className="px-2 text-right">Component σ</th>
+              <th className="px-2 text-right">% of σ</th>
+              <th className="px-2 text-right">Marginal VaR</th>
+              <th className="px-2 text-right">Component VaR</th>
+              <th className="px-2 text-right">% of VaR</th>
+              <th className="px-2 text-right">Hist. marg. VaR</th>
+              <th className="px-2 text-right">Hist. comp. VaR</th>
+              <th className="px-2 text-right">% of hist. VaR</th>
+            </tr>
+          </thead>
+          <tbody>
+            {assets.map((a, i) => (
+              <tr key={a.ticker}>
+                <td className="py-1 px-2 font-medium" style={{ color: a.color }}>{a.ticker}</td>
+                <td className="px-2 text-right">{toPct(w[i] ?? 0)}</td>
+                <td className="px-2 text-right">{toPct(vol.items[i].marginal)}</td>
+                <td className="px-2 text-right">{toPct(vol.items[i].component)}</td>
+                <td className="px-2 text-right">{toPct(vol.items[i].pct)}</td>
+                <td className="px-2 text-right">{toPct(pvar.items[i].marginal)}</td>
+                <td className="px-2 text-right">{toPct(pvar.items[i].component)}</td>
+                <td className="px-2 text-right">{toPct(pvar.items[i].pct)}</td>
+                <td className="px-2 text-right">{toPct(hvar.items[i].marginal)}</td>
+                <td className="px-2 text-right">{toPct(hvar.items[i].component)}</td>
+                <td className="px-2 text-right">{toPct(hvar.items[i].pct)}</td>
+              </tr>
+            ))}
+            {cashReturn !== 0 && (
+              <tr>
+                <td className="py-1 px-2 font-medium">Cash</td>
+                <td className="px-2 text-right">{toPct(1 - invested)}</td>
+                <td className="px-2" />
+                <td className="px-2 text-right">{toPct(0)}</td>
+                <td className="px-2 text-right">{toPct(0)}</td>
+                <td className="px-2" />
+                <td className="px-2 text-right">{toPct(pvar.cash)}</td>
+                <td className="px-2 text-right">{toPct(pvar.total === 0 ? 0 : pvar.cash / pvar.total)}</td>
+                <td className="px-2" />
+                <td className="px-2 text-right">{toPct(hvar.cash)}</td>
+                <td className="px-2 text-right">{toPct(hvar.total === 0 ? 0 : hvar.cash / hvar.total)}</td>
+              </tr>
+            )}
+            <tr className="border-t border-gray-200 dark:border-gray-800 font-semibold">
+              <td className="py-1 px-2">Total</td>
+              <td className="px-2 text-right">{toPct(cashReturn !== 0 ? 1 : invested)}</td>
+              <td className="px-2" />
+              <td className="px-2 text-right">{toPct(vol.sum)}</td>
+              <td className="px-2 text-right">{adds(vol, reported.vol) ? "✓" : "✗"}</td>
+              <td className="px-2" />
+              <td className="px-2 text-right">{toPct(pvar.sum)}</td>
+              <td className="px-2 text-right">{adds(pvar, reported.parametricVaR) ? "✓" : "✗"}</td>
+              <td className="px-2" />
+              <td className="px-2 text-right">{toPct(hvar.sum)}</td>
+              <td className="px-2 text-right">{adds(hvar, reported.historicalVaR) ? "✓" : "✗"}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-2 text-xs text-gray-500 dark:text-muted-dark">
+        Reported 1-day figures: σ {toPct(reported.vol)}, parametric VaR {toPct(reported.parametricVaR)}, historical VaR {toPct(reported.historicalVaR)}. Historical
+        components average the scenarios around the quantile and are scaled to the reported VaR. Marginal VaR is ∂VaR/∂wᵢ, the change in VaR per unit of
+        weight; weight × marginal is the component. ✓ marks components that add up to the reported figure.
+      </div>
+
+      <div className="h-64 sm:h-72 mt-4">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="measure" tick={{ fontSize: 12 }} />
+            <YAxis tick={{ fontSize: 12 }} tickFormatter={(v: number) => `${Math.round(v * 100)}%`} />
+            <Tooltip formatter={(v: number) => toPct(v)} />
+            <Legend />
+            <ReferenceLine y={0} stroke="#9ca3af" />
+            {assets.map((a) => (
+              <Bar key={a.ticker} dataKey={a.ticker} stackId="risk" fill={a.color} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
   LineChart,
   Line,
@@ -9,209 +9,347 @@ import {
   ResponsiveContainer,
   Legend,
 } from "recharts";
+import AnalyticsStatus from "./AnalyticsStatus";
+import BacktestPanel from "./BacktestPanel";
+import CovarianceSettings from "./CovarianceSettings";
+import DataImport from "./DataImport";
+import DistributionPanel from "./DistributionPanel";
+import DrawdownChart from "./DrawdownChart";
+import EstimatorComparison from "./EstimatorComparison";
+import ExposureEditor from "./ExposureEditor";
+import ExportBar from "./ExportBar";
+import LimitBadge from "./LimitBadge";
+import LimitSummary from "./LimitSummary";
+import LimitsEditor from "./LimitsEditor";
+import OptimizerPanel from "./OptimizerPanel";
+import PerformancePanel from "./PerformancePanel";
+import RebalancePanel from "./RebalancePanel";
+import ReportHeader from "./ReportHeader";
+import RiskDecomposition from "./RiskDecomposition";
+import RollingAnalytics from "./RollingAnalytics";
+import ScenarioLibrary from "./ScenarioLibrary";
+import ScenarioResults from "./ScenarioResults";
+import SessionBar from "./SessionBar";
+import SimulationPanel from "./SimulationPanel";
+import SnapshotComparison from "./SnapshotComparison";
+import UniverseEditor from "./UniverseEditor";
+import useRiskAnalytics from "../hooks/useRiskAnalytics";
+import type { ImportedDataset } from "../lib/importData";
+import { HORIZONS, VAR_METHODS, historicalTail, parametricTail, type VaRMethod } from "../lib/risk";
+import type { MonteCarloSettings } from "../lib/monteCarlo";
+import type { CovSettings } from "../lib/covariance";
+import { EWMA_LAMBDA } from "../lib/rolling";
+import { cumprod, effectiveWeights, type RiskView, type WeightMode } from "../lib/engine";
+import { identity, simulateReturns, type SimulationSettings } from "../lib/simulation";
+import { holdings, remapCorrelation, remapVector, type Universe } from "../lib/universe";
+import { PRESET_SCENARIOS, defaultExposures, runScenario, type Exposures, type Scenario } from "../lib/scenarios";
+import { DEFAULT_LIMITS, checkLimits, estimateLimitMetrics, type LimitKey, type RiskLimits } from "../lib/limits";
+import { DEFAULT_REBALANCE, type RebalanceSettings } from "../lib/rebalance";
+import { MAX_SNAPSHOTS, makeSnapshot, navOnDates, nextSnapshotColor, selectTail, snapshotMetrics, type Snapshot } from "../lib/snapshots";
+import { mean, std } from "../lib/stats";
+import { toConf, toMoney, toPct } from "../lib/format";
+import { decodeSession, encodeSession, MAX_DAYS, MIN_DAYS, sanitizeConfig, type WizardConfig } from "../lib/session";
+import type { ReportInput } from "../lib/report";
 
-// ---------- small helpers ---------- //
-function toPct(x: number, digits = 2) {
-  return `${(x * 100).toFixed(digits)}%`;
-}
+const DEFAULT_ASSETS = [
+  { id: "msft", ticker: "MSFT", mu: 0.0006, sigma: 0.020, color: "#2563eb" }, // ~15% ann, ~32% ann vol
+  { id: "aapl", ticker: "AAPL", mu: 0.0005, sigma: 0.022, color: "#16a34a" },
+  { id: "gld", ticker: "GLD", mu: 0.0002, sigma: 0.009, color: "#ca8a04" },
+  { id: "agg", ticker: "AGG", mu: 0.00015, sigma: 0.005, color: "#6b7280" }, // bonds
+];
 
-function quantile(arr: number[], q: number) {
-  if (arr.length === 0) return NaN;
-  const sorted = [...arr].sort((a, b) => a - b);
-  const pos = (sorted.length - 1) * q;
-  const base = Math.floor(pos);
-  const rest = pos - base;
-  if (sorted[base + 1] !== undefined) {
-    return sorted[base] + rest * (sorted[base + 1] - sorted[base]);
-  } else {
-    return sorted[base];
-  }
-}
+const DEFAULT_BENCH = { id: "spy", ticker: "SPY", mu: 0.0005, sigma: 0.012, color: "#ef4444" };
+
+const DEFAULT_UNIVERSE: Universe = { specs: [...DEFAULT_ASSETS, DEFAULT_BENCH], benchmarkId: DEFAULT_BENCH.id };
+
+const DEFAULT_WEIGHTS = [0.4, 0.4, 0.2, 0];
+
+// 97.5% is the FRTB Expected Shortfall level
+const CONF_PRESETS = [0.9, 0.95, 0.975, 0.99, 0.999];
+
+// target correlations for the sample data, in universe order: MSFT, AAPL, GLD, AGG, SPY
+const DEFAULT_SIMULATION: SimulationSettings = {
+  corr: [
+    [1, 0.65, 0.05, -0.1, 0.75],
+    [0.65, 1, 0.05, -0.1, 0.72],
+    [0.05, 0.05, 1, 0.25, 0.05],
+    [-0.1, -0.1, 0.25, 1, -0.15],
+    [0.75, 0.72, 0.05, -0.15, 1],
+  ],
+  distribution: "normal",
+  df: 5,
+  seed: 42,
+};
+
+const DEFAULT_CONFIG: WizardConfig = {
+  step: 1,
+  days: 252, // ~1Y trading days
+  conf: 0.95,
+  method: "historical",
+  mc: { paths: 20000, seed: 1234 },
+  covariance: { estimator: "sample", lambda: EWMA_LAMBDA },
+  weights: DEFAULT_WEIGHTS,
+  weightMode: "normalized",
+  cashRate: 0.02, // annual, on the cash line in exposure mode
+  shock: -0.07, // 1-day stress shock
+  horizon: 1, // VaR/ES horizon in trading days
+  notional: 1_000_000, // portfolio value for currency figures
+  customScenarios: [],
+  exposureOverrides: {},
+  limits: DEFAULT_LIMITS,
+  simulation: DEFAULT_SIMULATION,
+  universe: DEFAULT_UNIVERSE,
+  dataset: null, // null = synthetic sample data
+};
+
+const WEIGHT_MODES: Array<{ value: WeightMode; label: string }> = [
+  { value: "normalized", label: "Long-only (normalized)" },
+  { value: "exposure", label: "Long/short, leverage & cash" },
+];
 
-function mean(arr: number[]) {
-  return arr.reduce((a, b) => a + b, 0) / arr.length;
-}
+// colours for imported tickers, cycled when there are more series than entries
+const PALETTE = ["#2563eb", "#16a34a", "#ca8a04", "#6b7280", "#9333ea", "#0891b2", "#db2777", "#ea580c"];
 
-function std(arr: number[]) {
-  const m = mean(arr);
-  const v = arr.reduce((s, x) => s + (x - m) ** 2, 0) / (arr.length - 1);
-  return Math.sqrt(v);
-}
+// ---------- main component ---------- //
+export default function RiskWizard() {
+  const [step, setStep] = useState(DEFAULT_CONFIG.step);
+  const [days, setDays] = useState(DEFAULT_CONFIG.days);
+  const [conf, setConf] = useState(DEFAULT_CONFIG.conf);
+  const [method, setMethod] = useState<VaRMethod>(DEFAULT_CONFIG.method);
+  const [mc, setMc] = useState<MonteCarloSettings>(DEFAULT_CONFIG.mc);
+  const [covariance, setCovariance] = useState<CovSettings>(DEFAULT_CONFIG.covariance);
+  const [weights, setWeights] = useState<number[]>(DEFAULT_CONFIG.weights);
+  const [weightMode, setWeightMode] = useState<WeightMode>(DEFAULT_CONFIG.weightMode);
+  const [cashRate, setCashRate] = useState(DEFAULT_CONFIG.cashRate);
+  const [shock, setShock] = useState(DEFAULT_CONFIG.shock);
+  const [horizon, setHorizon] = useState(DEFAULT_CONFIG.horizon);
+  const [notional, setNotional] = useState(DEFAULT_CONFIG.notional);
+  const [customScenarios, setCustomScenarios] = useState<Scenario[]>(DEFAULT_CONFIG.customScenarios);
+  const [exposureOverrides, setExposureOverrides] = useState<Record<string, Partial<Exposures>>>(DEFAULT_CONFIG.exposureOverrides);
+  const [limits, setLimits] = useState<RiskLimits>(DEFAULT_CONFIG.limits);
+  const [dataset, setDataset] = useState<ImportedDataset | null>(DEFAULT_CONFIG.dataset);
+  const [simulation, setSimulation] = useState<SimulationSettings>(DEFAULT_CONFIG.simulation);
+  const [universe, setUniverse] = useState<Universe>(DEFAULT_CONFIG.universe);
+  // pinned portfolios for comparison; kept for the session only, they are not part of the shareable config
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  // Step 4 panel settings, session only; held here so the exported report can include them
+  const [riskFree, setRiskFree] = useState(0.02); // annual, for the performance ratios
+  const [rebalance, setRebalance] = useState<RebalanceSettings>(DEFAULT_REBALANCE);
+
+  // ---------- session: URL hash & saved portfolios ---------- //
+  const config: WizardConfig = useMemo(
+    () => ({ step, days, conf, method, mc, covariance, weights, weightMode, cashRate, shock, horizon, notional, customScenarios, exposureOverrides, limits, simulation, universe, dataset }),
+    [step, days, conf, method, mc, covariance, weights, weightMode, cashRate, shock, horizon, notional, customScenarios, exposureOverrides, limits, simulation, universe, dataset],
+  );
 
-function covariance(a: number[], b: number[]) {
-  const mA = mean(a);
-  const mB = mean(b);
-  let s = 0;
-  const n = Math.min(a.length, b.length);
-  for (let i = 0; i < n; i++) s += (a[i] - mA) * (b[i] - mB);
-  return s / (n - 1);
-}
+  function applyConfig(raw: unknown) {
+    const c = sanitizeConfig(raw, DEFAULT_CONFIG);
+    setStep(c.step);
+    setDays(c.days);
+    setConf(c.conf);
+    setMethod(c.method);
+    setMc(c.mc);
+    setCovariance(c.covariance);
+    setWeights(c.weights);
+    setWeightMode(c.weightMode);
+    setCashRate(c.cashRate);
+    setShock(c.shock);
+    setHorizon(c.horizon);
+    setNotional(c.notional);
+    setCustomScenarios(c.customScenarios);
+    setExposureOverrides(c.exposureOverrides);
+    setLimits(c.limits);
+    setDataset(c.dataset);
+    setSimulation(c.simulation);
+    setUniverse(c.universe);
+  }
 
-function corr(a: number[], b: number[]) {
-  return covariance(a, b) / (std(a) * std(b));
-}
+  // restore from the hash once, then keep the hash in sync (debounced) so a refresh or a shared link reopens this setup
+  const [restored, setRestored] = useState(false);
+  useEffect(() => {
+    decodeSession(window.location.hash).then((raw) => {
+      if (raw) applyConfig(raw);
+      setRestored(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!restored) return;
+    const t = setTimeout(() => {
+      encodeSession(config).then((hash) => window.history.replaceState(null, "", `#${hash}`));
+    }, 400);
+    return () => clearTimeout(t);
+  }, [config, restored]);
+
+  // jointly simulated sample paths, one per universe entry
+  const simulated = useMemo(() => {
+    try {
+      return simulateReturns(days, universe.specs, simulation);
+    } catch {
+      // not positive definite: fall back to independent draws (the panel flags it)
+      return simulateReturns(days, universe.specs, { ...simulation, corr: identity(universe.specs.length) });
+    }
+  }, [days, universe, simulation]);
 
-function cumprod(arr: number[]) {
-  const out: number[] = [];
-  let acc = 1;
-  for (const r of arr) {
-    acc = acc * (1 + r);
-    out.push(acc);
+  const assets = useMemo(() => {
+    if (dataset) {
+      return dataset.series
+        .filter((s) => s.ticker !== dataset.benchmark)
+        .map((s, i) => ({ ticker: s.ticker, mu: mean(s.returns), sigma: std(s.returns), color: PALETTE[i % PALETTE.length], returns: s.returns }));
+    }
+    return universe.specs
+      .map((a, i) => ({ ...a, returns: simulated[i] }))
+      .filter((a) => a.id !== universe.benchmarkId);
+  }, [dataset, universe, simulated]);
+
+  const bench = useMemo(() => {
+    if (dataset) {
+      const b = dataset.series.find((s) => s.ticker === dataset.benchmark)!;
+      return { ticker: b.ticker, mu: mean(b.returns), sigma: std(b.returns), color: DEFAULT_BENCH.color, returns: b.returns };
+    }
+    const k = universe.specs.findIndex((s) => s.id === universe.benchmarkId);
+    return { ...universe.specs[k], returns: simulated[k] };
+  }, [dataset, universe, simulated]);
+
+  // a new dataset (or benchmark) changes the asset list, so start from equal weights
+  function changeDataset(d: ImportedDataset | null) {
+    setDataset(d);
+    if (!d) setWeights(remapVector(DEFAULT_ASSETS.map((a) => a.id), holdings(universe).map((a) => a.id), DEFAULT_WEIGHTS));
+    else setWeights(Array(d.series.length - 1).fill(1 / (d.series.length - 1)));
   }
-  return out;
-}
 
-function maxDrawdown(returns: number[]) {
-  const nav = cumprod(returns);
-  let peak = -Infinity;
-  let maxDD = 0;
-  for (const v of nav) {
-    if (v > peak) peak = v;
-    const dd = (peak - v) / peak;
-    if (dd > maxDD) maxDD = dd;
+  // weights and target correlations follow each entry by id; new holdings start at 0%
+  function changeUniverse(next: Universe) {
+    const prevIds = universe.specs.map((s) => s.id);
+    const nextIds = next.specs.map((s) => s.id);
+    setWeights(remapVector(holdings(universe).map((s) => s.id), holdings(next).map((s) => s.id), weights));
+    setSimulation((sim) => ({ ...sim, corr: remapCorrelation(prevIds, nextIds, sim.corr) }));
+    setUniverse(next);
   }
-  return { nav, maxDD };
-}
 
-function zFromConf(conf: number) {
-  // one-tailed z for (1 - conf) tail, positive value e.g. 95% -> 1.645, 99% -> 2.326
-  const map: Record<string, number> = { "0.90": 1.282, "0.95": 1.645, "0.99": 2.326 };
-  const key = conf.toFixed(2);
-  return map[key] ?? 1.645;
-}
+  const w = useMemo(() => effectiveWeights(weights, weightMode), [weights, weightMode]);
 
-// sample data generator (geometric Brownian motion-ish)
-function genReturns(nDays: number, muDaily: number, sigmaDaily: number, seed = 42) {
-  // simple LCG for deterministic demo randomness
-  let state = seed;
-  const rand = () => ((state = (1664525 * state + 1013904223) % 4294967296) / 4294967296);
-  const out: number[] = [];
-  for (let i = 0; i < nDays; i++) {
-    // Box-Muller transform
-    const u1 = Math.max(rand(), 1e-9);
-    const u2 = Math.max(rand(), 1e-9);
-    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-    out.push(muDaily + sigmaDaily * z);
+  // switching modes keeps the portfolio as shown: normalized weights carry over as NAV fractions, shorts are dropped going back
+  function changeWeightMode(mode: WeightMode) {
+    if (mode === weightMode) return;
+    setWeights(mode === "exposure" ? w : weights.map((x) => Math.max(0, x)));
+    setWeightMode(mode);
   }
-  return out;
-}
 
-const DEFAULT_ASSETS = [
-  { ticker: "MSFT", mu: 0.0006, sigma: 0.020, color: "#2563eb" }, // ~15% ann, ~32% ann vol
-  { ticker: "AAPL", mu: 0.0005, sigma: 0.022, color: "#16a34a" },
-  { ticker: "GLD", mu: 0.0002, sigma: 0.009, color: "#ca8a04" },
-  { ticker: "AGG", mu: 0.00015, sigma: 0.005, color: "#6b7280" }, // bonds
-];
+  // optimizer solutions with shorts only fit the exposure model
+  function applyWeights(next: number[]) {
+    if (next.some((x) => x < -1e-9)) setWeightMode("exposure");
+    else next = next.map((x) => Math.max(0, x));
+    setWeights(next);
+  }
 
-const DEFAULT_BENCH = { ticker: "SPY", mu: 0.0005, sigma: 0.012, color: "#ef4444" };
+  // all portfolio analytics run in a Web Worker; `risk` is null until the first report for the current data arrives
+  const analytics = useRiskAnalytics({ assets, benchmark: bench, weights, mode: weightMode, cashRate, conf, horizon, shock, mc, covariance });
+  const risk = analytics.report;
 
-// ---------- main component ---------- //
-export default function RiskWizard() {
-  const [step, setStep] = useState(1);
-  const [days, setDays] = useState(252); // ~1Y trading days
-  const [conf, setConf] = useState(0.95);
-  const [useHistVaR, setUseHistVaR] = useState(true);
-  const [weights, setWeights] = useState<number[]>([0.4, 0.4, 0.2, 0]);
-  const [shock, setShock] = useState(-0.07); // 1-day stress shock
+  const methodShort = VAR_METHODS.find((m) => m.value === method)?.short ?? method;
+  const horizonLabel = HORIZONS.find((h) => h.days === horizon)?.label ?? `${horizon} days`;
 
-  const assets = useMemo(() => {
-    return DEFAULT_ASSETS.map((a, i) => ({ ...a, returns: genReturns(days, a.mu, a.sigma, 100 + i) }));
-  }, [days]);
-
-  const bench = useMemo(() => ({ ...DEFAULT_BENCH, returns: genReturns(days, DEFAULT_BENCH.mu, DEFAULT_BENCH.sigma, 999) }), [days]);
-
-  // normalize weights
-  const w = useMemo(() => {
-    const s = weights.reduce((a, b) => a + b, 0);
-    return s === 0 ? weights : weights.map((x) => x / s);
-  }, [weights]);
-
-  // portfolio returns
-  const pReturns = useMemo(() => {
-    const n = assets[0].returns.length;
-    const out: number[] = new Array(n).fill(0);
-    for (let t = 0; t < n; t++) {
-      let v = 0;
-      for (let i = 0; i < assets.length; i++) v += w[i] * (assets[i] as any).returns[t];
-      out[t] = v;
-    }
-    return out;
-  }, [assets, w]);
-
-  // stats
-  const annFactor = 252; // daily to annual
-  const pMean = useMemo(() => mean(pReturns), [pReturns]);
-  const pStd = useMemo(() => std(pReturns), [pReturns]);
-  const volAnn = useMemo(() => pStd * Math.sqrt(annFactor), [pStd]);
-
-  // covariance & correlation matrix
-  const covMatrix = useMemo(() => {
-    const n = assets.length;
-    const M: number[][] = Array.from({ length: n }, () => Array(n).fill(0));
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) M[i][j] = covariance((assets[i] as any).returns, (assets[j] as any).returns);
-    }
-    return M;
-  }, [assets]);
-
-  const corrMatrix = useMemo(() => {
-    const n = assets.length;
-    const M: number[][] = Array.from({ length: n }, () => Array(n).fill(0));
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) M[i][j] = corr((assets[i] as any).returns, (assets[j] as any).returns);
-    }
-    return M;
-  }, [assets]);
-
-  // portfolio volatility via w^T Σ w (daily -> annualized)
-  const volByMatrix = useMemo(() => {
-    const n = assets.length;
-    let v = 0;
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) v += w[i] * w[j] * covMatrix[i][j];
-    }
-    return Math.sqrt(v) * Math.sqrt(annFactor);
-  }, [covMatrix, w]);
-
-  // beta for each asset vs benchmark, and portfolio beta
-  const assetBetas = useMemo(() => assets.map((a) => covariance((a as any).returns, bench.returns) / covariance(bench.returns, bench.returns)), [assets, bench]);
-  const portBeta = useMemo(() => assetBetas.reduce((s, b, i) => s + w[i] * b, 0), [assetBetas, w]);
-
-  // VaR (1-day)
-  const varHist = useMemo(() => {
-    const q = quantile(pReturns, 1 - conf); // e.g. 5th percentile
-    return Math.max(0, -q); // express as positive loss fraction
-  }, [pReturns, conf]);
-
-  const varVC = useMemo(() => {
-    const z = zFromConf(conf);
-    // VaR = z*std - mu (1-day)
-    return Math.max(0, z * pStd - pMean);
-  }, [pStd, pMean, conf]);
-
-  // Max Drawdown
-  const { nav, maxDD } = useMemo(() => maxDrawdown(pReturns), [pReturns]);
-
-  // Stress: simple one-day shock applied proportional to beta contribution
-  const stressLoss = useMemo(() => {
-    const shockRet = shock; // e.g., -7%
-    // approximate portfolio response: beta * market shock for equity-like assets, bonds/gold dampened by corr
-    const benchStd = std(bench.returns) || 1e-9;
-    const benchShockZ = shockRet / benchStd; // how many std moves
-    const response = assets.reduce((s, a, i) => {
-      const corrToBench = corr((a as any).returns, bench.returns);
-      const assetStd = std((a as any).returns) || 1e-9;
-      const assetShock = benchShockZ * corrToBench * assetStd; // linear propagation
-      return s + w[i] * assetShock;
-    }, 0);
-    return response;
-  }, [assets, bench, shock, w]);
+  // limit checks on the current report: Step 2 warnings, Step 4 card badges and the breach summary
+  const limitChecks = useMemo(
+    () =>
+      risk
+        ? checkLimits({ var: selectTail(risk.tails, method).var, vol: risk.volByMatrix, beta: risk.beta, maxDD: risk.maxDD, weights: risk.w }, limits, assets.map((a) => a.ticker))
+        : [],
+    [risk, method, limits, assets],
+  );
+  const limitOf = (key: LimitKey) => limitChecks.find((c) => c.key === key);
+  // the same checks on optimizer suggestions, from instant estimates
+  const checkSuggestion = useCallback(
+    (x: number[]) =>
+      risk ? checkLimits(estimateLimitMetrics(assets, x, risk, risk.annFactor, conf, horizon, weightMode, cashRate), limits, assets.map((a) => a.ticker)) : [],
+    [risk, assets, conf, horizon, weightMode, cashRate, limits],
+  );
+
+  // scenario library: factor exposures default from ticker / estimated beta, user edits override them
+  const exposures = useMemo(
+    () => (risk ? assets.map((a, i) => ({ ...defaultExposures(a.ticker, risk.betas[i]), ...exposureOverrides[a.ticker] })) : null),
+    [assets, risk, exposureOverrides],
+  );
+  const scenarios = useMemo<Scenario[] | null>(
+    () =>
+      risk && [
+        {
+          id: "bench-shock",
+          name: `${bench.ticker} ${toPct(shock, 1)} (correlation)`,
+          factors: {},
+          assets: Object.fromEntries(assets.map((a, i) => [a.ticker, shock * risk.benchResponse[i]])),
+        },
+        ...PRESET_SCENARIOS,
+        ...customScenarios,
+      ],
+    [assets, bench, shock, risk, customScenarios],
+  );
+
+  // snapshot NAV lines lined up with the current days; a snapshot on other data has none
+  const overlays = useMemo(
+    () => snapshots.map((s) => ({ snap: s, nav: risk && navOnDates(s, dataset?.dates ?? null, risk.nav.length) })),
+    [snapshots, risk, dataset],
+  );
 
   // chart data
+  // portfolio and benchmark NAV, plus their ratio (rising = outperforming)
   const chartData = useMemo(() => {
-    const data = nav.map((v, i) => ({ idx: i, Portfolio: v }));
+    const benchNav = cumprod(bench.returns);
+    const data = (risk?.nav ?? []).map((v: number, i: number) => ({
+      idx: i,
+      Portfolio: v,
+      [bench.ticker]: benchNav[i],
+      Relative: v / benchNav[i],
+      ...Object.fromEntries(overlays.filter((o) => o.nav).map((o) => [o.snap.id, o.nav![i]])),
+    }));
     return data;
-  }, [nav]);
+  }, [risk, bench, overlays]);
+
+  // everything the export actions need, gathered once
+  const report: ReportInput | null = useMemo(
+    () => risk && exposures && scenarios && ({
+      generatedAt: new Date().toISOString(),
+      source: dataset ? "imported" : "sample",
+      dates: dataset?.dates ?? null,
+      assets,
+      bench,
+      w: risk.w,
+      settings: { conf, horizon, method, notional, shock, mcPaths: mc.paths, mcSeed: mc.seed, weightMode, cashRate, covariance: risk.covInfo, riskFree, rebalance },
+      pReturns: risk.returns,
+      nav: risk.nav,
+      covMatrix: risk.covMatrix,
+      corrMatrix: risk.corrMatrix,
+      means: risk.means,
+      annFactor: risk.annFactor,
+      cashReturn: risk.cashReturn,
+      metrics: {
+        volAnn: risk.volAnn,
+        volByMatrix: risk.volByMatrix,
+        portBeta: risk.beta,
+        assetBetas: risk.betas,
+        skewness: risk.skewness,
+        excessKurtosis: risk.excessKurtosis,
+        maxDD: risk.maxDD,
+        stressLoss: risk.stressLoss,
+      },
+      tails: risk.tails,
+      limits: limitChecks,
+      estimatorComparison: risk.estimatorComparison,
+      scenarios: scenarios.map((sc) => ({
+        name: sc.name,
+        total: runScenario(assets.map((a) => a.ticker), exposures, risk.w, sc).total,
+      })),
+    }),
+    [dataset, assets, bench, conf, horizon, method, notional, shock, mc, weightMode, cashRate, riskFree, rebalance, risk, limitChecks, scenarios, exposures],
+  );
+
+  function pinSnapshot(name: string) {
+    if (!risk) return;
+    const settings = { conf, horizon, method, shock };
+    const snap = makeSnapshot(name, nextSnapshotColor(snapshots), risk, assets.map((a) => a.ticker), weightMode, settings, dataset?.dates ?? null);
+    setSnapshots((s) => [...s, snap].slice(0, MAX_SNAPSHOTS));
+  }
 
   const next = () => setStep((s) => Math.min(4, s + 1));
   const back = () => setStep((s) => Math.max(1, s - 1));
@@ -225,96 +363,404 @@ export default function RiskWizard() {
     return `rgba(${r}, 60, ${b}, 0.2)`;
   }
 
+  // Step 4 body, rendered once a risk report for the current data is available
+  function renderResults(risk: RiskView, report: ReportInput, exposures: Exposures[], scenarios: Scenario[]) {
+    const { w, nav, maxDD, covMatrix, corrMatrix, volByMatrix, benchSensitivity, stressLoss, annFactor } = risk;
+    const { returns: pReturns, means: assetMeans, beta: portBeta } = risk;
+    const { historical: histTail, parametric: paramTail, cornishFisher: cfTail, monteCarlo: mcTail } = risk.tails;
+    const tail = { historical: histTail, parametric: paramTail, "cornish-fisher": cfTail, "monte-carlo": mcTail }[method];
+    const daySigma = volByMatrix / Math.sqrt(annFactor); // the σ behind the parametric figures
+    // the decomposition is 1-day; at a 1-day horizon these are the reported tails themselves
+    const decompositionTotals = {
+      vol: volByMatrix,
+      parametricVaR: horizon === 1 ? paramTail.var : parametricTail(risk.mean, daySigma, conf).var,
+      historicalVaR: horizon === 1 ? histTail.var : historicalTail(pReturns, conf).var,
+    };
+
+    return (
+      <div className="grid gap-6">
+        <ReportHeader report={report} methodLabel={VAR_METHODS.find((m) => m.value === method)?.label ?? method} horizonLabel={horizonLabel} />
+        <ExportBar report={report} />
+
+        <LimitSummary title="Risk Limits" checks={limitChecks} all />
+
+        <div className="card">
+          <h2 className="font-medium mb-3">Results · Key Risk Metrics (annualized where noted)</h2>
+          {weightMode === "exposure" && (
+            <div className="mb-3 text-sm text-gray-600 dark:text-gray-300">
+              Gross {toPct(risk.exposure.gross, 1)} · Net {toPct(risk.exposure.net, 1)} · Leverage {risk.exposure.leverage.toFixed(2)}× · Cash {toPct(risk.exposure.cash, 1)}
+            </div>
+          )}
+          <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-4 text-sm">
+            <div className="rounded-xl border p-4 bg-white dark:bg-white/5 border-gray-200 dark:border-gray-800">
+              <div className="text-gray-500 dark:text-muted-dark">Volatility (σ, annualized)</div>
+              <div className="text-2xl font-semibold">{toPct(volByMatrix)}</div>
+              <div className="text-xs text-gray-500 dark:text-muted-dark mt-1">via wᵀΣw</div>
+              <div className="mt-2"><LimitBadge check={limitOf("vol")} /></div>
+            </div>
+            <div className="rounded-xl border p-4 bg-white dark:bg-white/5 border-gray-200 dark:border-gray-800">
+              <div className="text-gray-500 dark:text-muted-dark">Portfolio Beta (β vs {bench.ticker})</div>
+              <div className="text-2xl font-semibold">{portBeta.toFixed(2)}</div>
+              <div className="text-xs text-gray-500 dark:text-muted-dark mt-1">weighted average of asset betas</div>
+              <div className="mt-2"><LimitBadge check={limitOf("beta")} /></div>
+            </div>
+            <div className="rounded-xl border p-4 bg-white dark:bg-white/5 border-gray-200 dark:border-gray-800">
+              <div className="text-gray-500 dark:text-muted-dark">{horizonLabel} VaR {toConf(conf)} ({methodShort})</div>
+              <div className="text-2xl font-semibold">{toPct(tail.var)}</div>
+              <div className="text-xs text-gray-500 dark:text-muted-dark mt-1">
+                {toMoney(tail.var * notional)} · positive value = potential loss
+                {method === "monte-carlo" && <> · 95% CI {toPct(mcTail.varCI[0])}–{toPct(mcTail.varCI[1])}</>}
+              </div>
+              <div className="mt-2"><LimitBadge check={limitOf("var")} /></div>
+            </div>
+            <div className="rounded-xl border p-4 bg-white dark:bg-white/5 border-gray-200 dark:border-gray-800">
+              <div className="text-gray-500 dark:text-muted-dark">{horizonLabel} ES {toConf(conf)} ({methodShort})</div>
+              <div className="text-2xl font-semibold">{toPct(tail.es)}</div>
+              <div className="text-xs text-gray-500 dark:text-muted-dark mt-1">
+                {toMoney(tail.es * notional)} · average loss beyond VaR
+                {method === "monte-carlo" && <> · 95% CI {toPct(mcTail.esCI[0])}–{toPct(mcTail.esCI[1])}</>}
+              </div>
+            </div>
+            <div className="rounded-xl border p-4 bg-white dark:bg-white/5 border-gray-200 dark:border-gray-800">
+              <div className="text-gray-500 dark:text-muted-dark">Max Drawdown (historical)</div>
+              <div className="text-2xl font-semibold">{toPct(maxDD)}</div>
+              <div className="text-xs text-gray-500 dark:text-muted-dark mt-1">from peak to trough</div>
+              <div className="mt-2"><LimitBadge check={limitOf("maxDD")} /></div>
+            </div>
+          </div>
+        </div>
+
+        <SnapshotComparison
+          assets={assets}
+          current={{ color: "#2563eb", tickers: assets.map((a) => a.ticker), w, settings: { conf, horizon, method, shock }, metrics: snapshotMetrics(risk, method) }}
+          snapshots={snapshots}
+          busy={analytics.busy}
+          onPin={pinSnapshot}
+          onRemove={(id) => setSnapshots((s) => s.filter((x) => x.id !== id))}
+        />
+
+        <div className="card">
+          <h3 className="font-medium mb-3">VaR & Expected Shortfall · {horizonLabel}, {toConf(conf)}</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-muted-dark">
+                  <th className="py-1 px-2">Method</th>
+                  <th className="px-2 text-right">VaR</th>
+                  <th className="px-2 text-right">VaR ({toMoney(notional)})</th>
+                  <th className="px-2 text-right">ES</th>
+                  <th className="px-2 text-right">ES ({toMoney(notional)})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[
+                  { label: "Historical", t: histTail },
+                  { label: "Parametric (normal)", t: paramTail },
+                  { label: "Modified (Cornish–Fisher)", t: cfTail },
+                  { label: `Monte Carlo (${mcTail.paths.toLocaleString()} paths)`, t: mcTail },
+                ].map((row) => (
+                  <tr key={row.label}>
+                    <td className="py-1 px-2 font-medium">{row.label}</td>
+                    <td className="px-2 text-right">{toPct(row.t.var)}</td>
+                    <td className="px-2 text-right">{toMoney(row.t.var * notional)}</td>
+                    <td className="px-2 text-right">{toPct(row.t.es)}</td>
+                    <td className="px-2 text-right">{toMoney(row.t.es * notional)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-2 text-xs text-gray-500 dark:text-muted-dark">
+            Monte Carlo sampling 95% CI: VaR {toPct(mcTail.varCI[0])}–{toPct(mcTail.varCI[1])}, ES {toPct(mcTail.esCI[0])}–{toPct(mcTail.esCI[1])}.
+          </div>
+        </div>
+
+        <EstimatorComparison rows={risk.estimatorComparison} current={covariance.estimator} conf={conf} horizonLabel={horizonLabel} notional={notional} />
+
+        <DistributionPanel returns={pReturns} sigma={daySigma} conf={conf} />
+
+        <PerformancePanel returns={pReturns} bench={bench} annFactor={annFactor} rf={riskFree} onRfChange={setRiskFree} />
+
+        <RiskDecomposition
+          assets={assets}
+          w={w}
+          covMatrix={covMatrix}
+          means={assetMeans}
+          conf={conf}
+          annFactor={annFactor}
+          cashReturn={risk.cashReturn}
+          reported={decompositionTotals}
+        />
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="card">
+            <h3 className="font-medium mb-3">Cumulative NAV vs {bench.ticker}</h3>
+            <div className="h-64 sm:h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="idx" tick={{ fontSize: 12 }} />
+                  <YAxis tick={{ fontSize: 12 }} />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="Portfolio" dot={false} stroke="#2563eb" strokeWidth={2} />
+                  <Line type="monotone" dataKey={bench.ticker} dot={false} stroke={bench.color} strokeWidth={1.5} />
+                  <Line type="monotone" dataKey="Relative" dot={false} stroke="#9333ea" strokeWidth={1.5} strokeDasharray="4 3" />
+                  {overlays
+                    .filter((o) => o.nav)
+                    .map(({ snap: s }) => (
+                      <Line key={s.id} type="monotone" dataKey={s.id} name={s.name} dot={false} stroke={s.color} strokeWidth={1.5} strokeDasharray="2 2" />
+                    ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            {overlays.some((o) => !o.nav) && (
+              <div className="mt-2 text-xs text-gray-500 dark:text-muted-dark">
+                Not shown, as their history does not line up with the current days:{" "}
+                {overlays
+                  .filter((o) => !o.nav)
+                  .map((o) => o.snap.name)
+                  .join(", ")}
+                .
+              </div>
+            )}
+          </div>
+
+          <BacktestPanel returns={pReturns} conf={conf} />
+        </div>
+
+        <DrawdownChart underwater={risk.underwater} episode={risk.drawdown} dates={dataset?.dates ?? null} />
+
+        <RebalancePanel
+          assets={assets}
+          w={w}
+          idealReturns={pReturns}
+          cashDaily={weightMode === "exposure" ? cashRate / annFactor : 0}
+          conf={conf}
+          horizon={horizon}
+          horizonLabel={horizonLabel}
+          annFactor={annFactor}
+          dates={dataset?.dates ?? null}
+          settings={rebalance}
+          onChange={setRebalance}
+        />
+
+        <RollingAnalytics assets={assets} bench={bench} returns={pReturns} conf={conf} annFactor={annFactor} />
+
+        <div className="card">
+          <h3 className="font-medium mb-3">Correlation Heat Table</h3>
+          <div className="overflow-x-auto">
+            <table className="text-sm min-w-[480px]">
+              <thead>
+                <tr>
+                  <th className="p-2 text-left">Asset</th>
+                  {assets.map((a) => (
+                    <th key={a.ticker} className="p-2 text-center">{a.ticker}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {assets.map((a, i) => (
+                  <tr key={a.ticker}>
+                    <td className="p-2 font-medium" style={{ color: a.color }}>{a.ticker}</td>
+                    {assets.map((b, j) => (
+                      <td key={b.ticker}
+                        className="p-2 text-center rounded"
+                        style={{ background: corrBg(corrMatrix[i][j]) }}
+                      >
+                        {corrMatrix[i][j].toFixed(2)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="card">
+          <h3 className="font-medium mb-2">Stress Test (1-day benchmark shock)</h3>
+          <div className="text-sm">Shock: <span className="font-semibold">{toPct(shock)}</span> → Estimated portfolio impact: <span className="font-semibold">{toPct(stressLoss)}</span></div>
+          <div className="text-xs text-gray-500 dark:text-muted-dark mt-1">Linear propagation using asset correlation & relative volatility. For education/demo only.</div>
+        </div>
+
+        <ScenarioResults
+          assets={assets}
+          w={w}
+          exposures={exposures}
+          scenarios={scenarios}
+          notional={notional}
+          benchTicker={bench.ticker}
+          benchSensitivity={benchSensitivity}
+        />
+      </div>
+    );
+  }
+
+  const pending = <div className="card text-sm text-gray-500 dark:text-muted-dark">Computing risk figures…</div>;
+
+
   return (
     <div className="w-full max-w-6xl mx-auto p-4 sm:p-6 safe-px safe-py">
-      <div className="mb-6">
+      <div className="mb-6 print:hidden">
         <h1 className="text-xl sm:text-2xl font-semibold">Interactive Risk Analysis Wizard</h1>
         <p className="text-xs sm:text-sm text-gray-500 dark:text-muted-dark">Step-by-step, institutional-style portfolio risk demo — no external data required.</p>
       </div>
 
+      <SessionBar config={config} defaults={DEFAULT_CONFIG} onLoad={applyConfig} />
+
       {/* progress */}
-      <div className="flex items-center gap-3 mb-6">
+      <div className="flex items-center gap-3 mb-6 print:hidden">
         {[1, 2, 3, 4].map((i) => (
           <div key={i} className={`flex-1 h-2 rounded-full ${i <= step ? "bg-blue-600" : "bg-gray-200 dark:bg-gray-800"}`} />
         ))}
       </div>
 
+      <AnalyticsStatus state={analytics} />
+
       {step === 1 && (
         <div className="grid gap-6 md:grid-cols-2">
           <div className="card">
             <h2 className="font-medium mb-3">Step 1 · Dataset & Benchmark</h2>
-            <label className="block text-sm mb-1">Trading days</label>
-            <input
-              aria-label="Trading days"
-              type="range"
-              min={126}
-              max={756}
-              step={21}
-              value={days}
-              onChange={(e) => setDays(parseInt(e.target.value))}
-              className="w-full"
-            />
-            <div className="text-sm text-gray-600 dark:text-gray-300 mt-1">{days} days (~{(days / 252).toFixed(1)} years)</div>
+            {dataset ? (
+              <div className="text-sm text-gray-600 dark:text-gray-300">
+                Imported: {dataset.dates.length} days (~{(dataset.dates.length / 252).toFixed(1)} years)
+              </div>
+            ) : (
+              <>
+                <label className="block text-sm mb-1">Trading days</label>
+                <input
+                  aria-label="Trading days"
+                  type="range"
+                  min={MIN_DAYS}
+                  max={MAX_DAYS}
+                  step={21}
+                  value={days}
+                  onChange={(e) => setDays(parseInt(e.target.value))}
+                  className="w-full"
+                />
+                <div className="text-sm text-gray-600 dark:text-gray-300 mt-1">{days} days (~{(days / 252).toFixed(1)} years)</div>
+              </>
+            )}
             <div className="mt-4 text-sm text-gray-600 dark:text-gray-300">
-              Benchmark: <span className="font-semibold">{bench.ticker}</span> (sampled)
+              Benchmark: <span className="font-semibold">{bench.ticker}</span> ({dataset ? "imported" : "sampled"})
             </div>
             <div className="mt-4 text-xs text-gray-500 dark:text-muted-dark">
-              This demo generates realistic sample returns in-browser to illustrate the workflow without external data.
+              {dataset
+                ? "Returns are derived from your imported history and aligned on the dates every series shares."
+                : "This demo generates correlated sample returns in-browser to illustrate the workflow without external data."}
             </div>
           </div>
 
           <div className="card">
-            <h3 className="font-medium mb-3">Assets (sample parameters)</h3>
-            <div className="overflow-x-auto -mx-2 sm:mx-0">
-              <table className="w-full text-sm">
-                <thead>
-                  <tr className="text-left text-gray-500 dark:text-muted-dark">
-                    <th className="py-1 px-2">Ticker</th>
-                    <th className="px-2">μ (daily)</th>
-                    <th className="px-2">σ (daily)</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {assets.map((a) => (
-                    <tr key={a.ticker}>
-                      <td className="py-1 px-2 font-medium" style={{ color: (a as any).color }}>{a.ticker}</td>
-                      <td className="px-2">{((a as any).mu * 100).toFixed(2)}%</td>
-                      <td className="px-2">{((a as any).sigma * 100).toFixed(2)}%</td>
+            <h3 className="font-medium mb-3">Assets ({dataset ? "estimated from history" : "sample parameters"})</h3>
+            {!dataset ? (
+              <UniverseEditor universe={universe} onChange={changeUniverse} />
+            ) : (
+              <div className="overflow-x-auto -mx-2 sm:mx-0">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-muted-dark">
+                      <th className="py-1 px-2">Ticker</th>
+                      <th className="px-2">μ (daily)</th>
+                      <th className="px-2">σ (daily)</th>
                     </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
+                  </thead>
+                  <tbody>
+                    {assets.map((a) => (
+                      <tr key={a.ticker}>
+                        <td className="py-1 px-2 font-medium" style={{ color: a.color }}>{a.ticker}</td>
+                        <td className="px-2">{(a.mu * 100).toFixed(2)}%</td>
+                        <td className="px-2">{(a.sigma * 100).toFixed(2)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </div>
+
+          {!dataset && (
+            <SimulationPanel
+              tickers={universe.specs.map((a) => a.ticker)}
+              settings={simulation}
+              onChange={setSimulation}
+            />
+          )}
+
+          <DataImport dataset={dataset} onChange={changeDataset} />
         </div>
       )}
 
       {step === 2 && (
-        <div className="card">
-          <h2 className="font-medium mb-3">Step 2 · Portfolio Weights</h2>
-          <div className="grid gap-4">
-            {assets.map((a, i) => (
-              <div key={a.ticker} className="grid grid-cols-12 items-center gap-3">
-                <div className="col-span-3 sm:col-span-2 text-sm font-medium truncate" style={{ color: (a as any).color }}>{a.ticker}</div>
-                <input
-                  className="col-span-7 sm:col-span-8"
-                  type="range"
-                  min={0}
-                  max={1}
-                  step={0.01}
-                  value={weights[i]}
-                  onChange={(e) => {
-                    const v = parseFloat(e.target.value);
-                    const nextW = [...weights];
-                    nextW[i] = v;
-                    setWeights(nextW);
-                  }}
-                />
-                <div className="col-span-2 text-right text-sm">{toPct(w[i] ?? 0)}</div>
+        <div className="grid gap-6">
+          <div className="card">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <h2 className="font-medium">Step 2 · Portfolio Weights</h2>
+              <div className="flex gap-2 text-sm">
+                {WEIGHT_MODES.map((m) => (
+                  <button
+                    key={m.value}
+                    onClick={() => changeWeightMode(m.value)}
+                    className={`px-3 py-1 rounded-full border border-gray-200 dark:border-gray-700 ${weightMode === m.value ? "bg-blue-600 text-white" : "bg-white dark:bg-transparent"}`}
+                  >
+                    {m.label}
+                  </button>
+                ))}
               </div>
-            ))}
+            </div>
+            {weightMode === "exposure" ? (
+              <ExposureEditor assets={assets} weights={weights} notional={notional} cashRate={cashRate} onChange={setWeights} onCashRateChange={setCashRate} />
+            ) : (
+              <>
+                <div className="grid gap-4">
+                  {assets.map((a, i) => (
+                    <div key={a.ticker} className="grid grid-cols-12 items-center gap-3">
+                      <div className="col-span-3 sm:col-span-2 text-sm font-medium truncate" style={{ color: a.color }}>{a.ticker}</div>
+                      <input
+                        className="col-span-7 sm:col-span-8"
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.01}
+                        value={weights[i]}
+                        onChange={(e) => {
+                          const v = parseFloat(e.target.value);
+                          const nextW = [...weights];
+                          nextW[i] = v;
+                          setWeights(nextW);
+                        }}
+                      />
+                      <div className="col-span-2 text-right text-sm">{toPct(w[i] ?? 0)}</div>
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-3 text-xs text-gray-500 dark:text-muted-dark">Weights auto-normalize to 100%.</div>
+              </>
+            )}
           </div>
-          <div className="mt-3 text-xs text-gray-500 dark:text-muted-dark">Weights auto-normalize to 100%.</div>
+
+          {risk && (
+            <LimitSummary
+              title="Risk limits · current weights"
+              checks={limitChecks}
+              note="Rechecked on every weight change; breaches and limits above the amber threshold are listed."
+            />
+          )}
+
+          {risk ? (
+            <OptimizerPanel
+              assets={assets}
+              w={w}
+              means={risk.means}
+              covMatrix={risk.covMatrix}
+              annFactor={risk.annFactor}
+              onApply={applyWeights}
+              checkLimits={checkSuggestion}
+            />
+          ) : (
+            pending
+          )}
         </div>
       )}
 
@@ -323,28 +769,100 @@ export default function RiskWizard() {
           <div className="card">
             <h2 className="font-medium mb-3">Step 3 · VaR Settings</h2>
             <div className="text-sm mb-2">Confidence</div>
-            <div className="flex items-center gap-2">
-              {[0.90, 0.95, 0.99].map((c) => (
+            <div className="flex flex-wrap items-center gap-2">
+              {CONF_PRESETS.map((c) => (
                 <button
                   key={c}
                   onClick={() => setConf(c)}
                   className={`px-3 py-1 rounded-full border border-gray-200 dark:border-gray-700 ${conf === c ? "bg-blue-600 text-white" : "bg-white dark:bg-transparent"}`}
                 >
-                  {(c * 100).toFixed(0)}%
+                  {toConf(c)}
                 </button>
               ))}
+              <label className="flex items-center gap-1 text-sm">
+                <input
+                  aria-label="Custom confidence (%)"
+                  type="number"
+                  min={50}
+                  max={99.99}
+                  step={0.1}
+                  value={+(conf * 100).toFixed(2)}
+                  onChange={(e) => {
+                    const v = parseFloat(e.target.value);
+                    if (v >= 50 && v <= 99.99) setConf(v / 100);
+                  }}
+                  className="w-20 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1"
+                />
+                %
+              </label>
             </div>
             <div className="mt-4 text-sm mb-2">Method</div>
-            <div className="flex items-center gap-3">
-              <label className="flex items-center gap-2 text-sm">
-                <input type="radio" checked={true === true && conf && (true || false) && undefined === undefined && (true)} onChange={() => setUseHistVaR(true)} /> Historical Simulation
-              </label>
-              <label className="flex items-center gap-2 text-sm">
-                <input type="radio" checked={!useHistVaR} onChange={() => setUseHistVaR(false)} /> Variance–Covariance
-              </label>
+            <div className="flex flex-wrap items-center gap-3">
+              {VAR_METHODS.map((m) => (
+                <label key={m.value} className="flex items-center gap-2 text-sm">
+                  <input type="radio" name="var-method" checked={method === m.value} onChange={() => setMethod(m.value)} /> {m.label}
+                </label>
+              ))}
             </div>
+            {method === "monte-carlo" && (
+              <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                  Paths
+                  <select
+                    value={mc.paths}
+                    onChange={(e) => setMc({ ...mc, paths: parseInt(e.target.value) })}
+                    className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1"
+                  >
+                    {[5000, 20000, 50000, 100000].map((n) => (
+                      <option key={n} value={n}>{n.toLocaleString()}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  Seed
+                  <input
+                    type="number"
+                    step={1}
+                    value={mc.seed}
+                    onChange={(e) => setMc({ ...mc, seed: parseInt(e.target.value) || 0 })}
+                    className="w-24 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1"
+                  />
+                </label>
+              </div>
+            )}
+            <div className="mt-4 text-sm mb-2">Horizon</div>
+            <div className="flex items-center gap-2">
+              {HORIZONS.map((h) => (
+                <button
+                  key={h.days}
+                  onClick={() => setHorizon(h.days)}
+                  disabled={h.days > bench.returns.length}
+                  className={`px-3 py-1 rounded-full border border-gray-200 dark:border-gray-700 disabled:opacity-50 ${horizon === h.days ? "bg-blue-600 text-white" : "bg-white dark:bg-transparent"}`}
+                >
+                  {h.label}
+                </button>
+              ))}
+            </div>
+            {HORIZONS.some((h) => h.days > bench.returns.length) && (
+              <div className="mt-1 text-xs text-gray-500 dark:text-muted-dark">
+                Longer horizons need more than the {bench.returns.length} return observations loaded.
+              </div>
+            )}
+            <label className="mt-4 block text-sm mb-1">Portfolio notional (USD)</label>
+            <input
+              aria-label="Portfolio notional"
+              type="number"
+              min={0}
+              step={10000}
+              value={notional}
+              onChange={(e) => setNotional(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="w-full rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1 text-sm"
+            />
             <div className="mt-4 text-xs text-gray-500 dark:text-muted-dark">
-              Historical VaR uses the empirical return distribution; Variance–Covariance assumes normality.
+              Historical VaR uses the empirical return distribution; Variance–Covariance assumes normality;
+              Modified VaR adjusts the normal quantile for skewness ({risk ? risk.skewness.toFixed(2) : "…"}) and excess kurtosis ({risk ? risk.excessKurtosis.toFixed(2) : "…"});
+              Monte Carlo draws multivariate-normal scenarios from the covariance matrix and asset means.
+              Multi-day figures use overlapping returns (historical) or √t scaling (parametric).
             </div>
           </div>
 
@@ -366,98 +884,35 @@ export default function RiskWizard() {
               Shock is propagated to assets using correlation and relative volatility.
             </div>
           </div>
-        </div>
-      )}
 
-      {step === 4 && (
-        <div className="grid gap-6">
-          <div className="card">
-            <h2 className="font-medium mb-3">Results · Key Risk Metrics (annualized where noted)</h2>
-            <div className="grid md:grid-cols-4 gap-4 text-sm">
-              <div className="rounded-xl border p-4 bg-white dark:bg-white/5 border-gray-200 dark:border-gray-800">
-                <div className="text-gray-500 dark:text-muted-dark">Volatility (σ, annualized)</div>
-                <div className="text-2xl font-semibold">{toPct(volAnn)}</div>
-                <div className="text-xs text-gray-500 dark:text-muted-dark mt-1">via wᵀΣw</div>
-              </div>
-              <div className="rounded-xl border p-4 bg-white dark:bg-white/5 border-gray-200 dark:border-gray-800">
-                <div className="text-gray-500 dark:text-muted-dark">Portfolio Beta (β vs SPY)</div>
-                <div className="text-2xl font-semibold">{portBeta.toFixed(2)}</div>
-                <div className="text-xs text-gray-500 dark:text-muted-dark mt-1">weighted average of asset betas</div>
-              </div>
-              <div className="rounded-xl border p-4 bg-white dark:bg-white/5 border-gray-200 dark:border-gray-800">
-                <div className="text-gray-500 dark:text-muted-dark">1-Day VaR {Math.round(conf * 100)}% ({useHistVaR ? "Hist" : "V-C"})</div>
-                <div className="text-2xl font-semibold">{toPct(useHistVaR ? varHist : varVC)}</div>
-                <div className="text-xs text-gray-500 dark:text-muted-dark mt-1">positive value = potential loss</div>
-              </div>
-              <div className="rounded-xl border p-4 bg-white dark:bg-white/5 border-gray-200 dark:border-gray-800">
-                <div className="text-gray-500 dark:text-muted-dark">Max Drawdown (historical)</div>
-                <div className="text-2xl font-semibold">{toPct(maxDD)}</div>
-                <div className="text-xs text-gray-500 dark:text-muted-dark mt-1">from peak to trough</div>
-              </div>
-            </div>
-          </div>
+          <CovarianceSettings value={covariance} onChange={setCovariance} info={risk?.covInfo ?? null} />
 
-          <div className="card">
-            <h3 className="font-medium mb-3">Cumulative NAV</h3>
-            <div className="h-64 sm:h-72">
-              <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={chartData} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="idx" tick={{ fontSize: 12 }} />
-                  <YAxis tick={{ fontSize: 12 }} />
-                  <Tooltip />
-                  <Legend />
-                  <Line type="monotone" dataKey="Portfolio" dot={false} stroke="#2563eb" strokeWidth={2} />
-                </LineChart>
-              </ResponsiveContainer>
-            </div>
-          </div>
-
-          <div className="card">
-            <h3 className="font-medium mb-3">Correlation Heat Table</h3>
-            <div className="overflow-x-auto">
-              <table className="text-sm min-w-[480px]">
-                <thead>
-                  <tr>
-                    <th className="p-2 text-left">Asset</th>
-                    {assets.map((a) => (
-                      <th key={a.ticker} className="p-2 text-center">{a.ticker}</th>
-                    ))}
-                  </tr>
-                </thead>
-                <tbody>
-                  {assets.map((a, i) => (
-                    <tr key={a.ticker}>
-                      <td className="p-2 font-medium" style={{ color: (a as any).color }}>{a.ticker}</td>
-                      {assets.map((b, j) => (
-                        <td key={b.ticker}
-                          className="p-2 text-center rounded"
-                          style={{ background: corrBg(corrMatrix[i][j]) }}
-                        >
-                          {corrMatrix[i][j].toFixed(2)}
-                        </td>
-                      ))}
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-          </div>
+          <LimitsEditor limits={limits} varLabel={`${horizonLabel} ${toConf(conf)} ${methodShort}`} onChange={setLimits} />
 
-          <div className="card">
-            <h3 className="font-medium mb-2">Stress Test (1-day benchmark shock)</h3>
-            <div className="text-sm">Shock: <span className="font-semibold">{toPct(shock)}</span> → Estimated portfolio impact: <span className="font-semibold">{toPct(stressLoss)}</span></div>
-            <div className="text-xs text-gray-500 dark:text-muted-dark mt-1">Linear propagation using asset correlation & relative volatility. For education/demo only.</div>
-          </div>
+          {exposures ? (
+            <ScenarioLibrary
+              assets={assets}
+              exposures={exposures}
+              onExposureChange={(ticker, factor, value) =>
+                setExposureOverrides((o) => ({ ...o, [ticker]: { ...o[ticker], [factor]: value } }))
+              }
+              custom={customScenarios}
+              onCustomChange={setCustomScenarios}
+            />
+          ) : (
+            pending
+          )}
         </div>
       )}
 
-      <div className="mt-6 flex items-center justify-between gap-2">
+      {step === 4 && (risk && report && exposures && scenarios ? renderResults(risk, report, exposures, scenarios) : pending)}
+
+      <div className="mt-6 flex items-center justify-between gap-2 print:hidden">
         <button onClick={back} disabled={step === 1} className={`px-4 py-2 rounded-xl border border-gray-200 dark:border-gray-700 ${step === 1 ? "opacity-40 cursor-not-allowed" : "hover:bg-gray-50 dark:hover:bg-white/10"}`}>Back</button>
         <div className="text-xs text-gray-500 dark:text-muted-dark hidden md:block">
           {step === 1 && "Choose sample dataset & benchmark"}
-          {step === 2 && "Adjust weights; they auto-normalize to 100%"}
-          {step === 3 && "Pick VaR method & set a stress scenario"}
+          {step === 2 && "Adjust weights or apply a suggested portfolio"}
+          {step === 3 && "Pick VaR method & horizon, set a stress scenario"}
           {step === 4 && "Review results, charts, and stress impact"}
         </div>
         <button onClick={next} disabled={step === 4} className={`px-4 py-2 rounded-xl border bg-blue-600 text-white border-blue-600 ${step === 4 ? "opacity-40 cursor-not-allowed" : "hover:bg-blue-700"}`}>{step === 3 ? "Compute" : step === 4 ? "Done" : "Next"}</button>
@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from "react";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { BacktestMethod } from "../lib/backtest";
+import { toConf, toPct } from "../lib/format";
+import { EWMA_LAMBDA, ROLLING_WINDOWS, ewmaVolatility, rollingBeta, rollingCorrelation, rollingVaR, rollingVolatility } from "../lib/rolling";
+
+type Series = { ticker: string; color: string; returns: number[] };
+
+type Props = {
+  assets: Series[];
+  bench: Series;
+  returns: number[]; // daily portfolio returns
+  conf: number;
+  annFactor: number;
+};
+
+const selectCls = "rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1";
+
+function RollingChart({ title, data, lines, format }: {
+  title: string;
+  data: Array<Record<string, number | null>>;
+  lines: Array<{ key: string; color: string; dashed?: boolean }>;
+  format: (v: number) => string;
+}) {
+  return (
+    <div>
+      <div className="text-sm mb-1">{title}</div>
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="idx" tick={{ fontSize: 12 }} />
+            <YAxis tick={{ fontSize: 12 }} tickFormatter={format} domain={["auto", "auto"]} />
+            <Tooltip formatter={(v: number) => format(v)} />
+            {lines.length > 1 && <Legend />}
+            {lines.map((l) => (
+              <Line key={l.key} type="monotone" dataKey={l.key} dot={false} stroke={l.color} strokeWidth={2} strokeDasharray={l.dashed ? "4 3" : undefined} connectNulls={false} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+export default function RollingAnalytics({ assets, bench, returns, conf, annFactor }: Props) {
+  const usable = ROLLING_WINDOWS.filter((w) => returns.length >= 2 * w);
+  const [windowDays, setWindowDays] = useState(63);
+  const [ewma, setEwma] = useState(true);
+  const [varMethod, setVarMethod] = useState<BacktestMethod>("historical");
+  const [pair, setPair] = useState<[string, string]>([assets[0]?.ticker ?? "", bench.ticker]);
+  const win = usable.includes(windowDays) ? windowDays : usable[usable.length - 1] ?? 0;
+
+  // assets plus the benchmark, so any of them can be paired
+  const choices = useMemo(() => [...assets, bench], [assets, bench]);
+  const a = choices.find((c) => c.ticker === pair[0]) ?? choices[0];
+  const b = choices.find((c) => c.ticker === pair[1]) ?? bench;
+
+  const data = useMemo(() => {
+    if (!win) return [];
+    const vol = rollingVolatility(returns, win, annFactor);
+    const ew = ewmaVolatility(returns, win, EWMA_LAMBDA, annFactor);
+    const beta = rollingBeta(returns, bench.returns, win);
+    const v = rollingVaR(returns, win, conf, varMethod);
+    const rho = rollingCorrelation(a.returns, b.returns, win);
+    // drop the warm-up days so every chart starts at the first full window
+    return returns.map((_, t) => ({ idx: t, Volatility: vol[t], EWMA: ew[t], Beta: beta[t], VaR: v[t], Correlation: rho[t] })).slice(win - 1);
+  }, [returns, bench, a, b, win, conf, varMethod, annFactor]);
+
+  return (
+    <div className="card">
+      <h3 className="font-medium mb-3">Rolling Risk ({win ? `${win}-day window` : "n/a"})</h3>
+      <div className="flex flex-wrap items-center gap-4 text-sm mb-3">
+        <label className="flex items-center gap-2">
+          Window
+          <select value={win} onChange={(e) => setWindowDays(parseInt(e.target.value))} className={selectCls}>
+            {usable.map((w) => (
+              <option key={w} value={w}>{w} days</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={ewma} onChange={(e) => setEwma(e.target.checked)} /> EWMA volatility (λ = {EWMA_LAMBDA})
+        </label>
+        <label className="flex items-center gap-2">
+          VaR
+          <select value={varMethod} onChange={(e) => setVarMethod(e.target.value as BacktestMethod)} className={selectCls}>
+            <option value="historical">Historical</option>
+            <option value="parametric">Variance–Covariance</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Pair
+          <select value={a.ticker} onChange={(e) => setPair([e.target.value, b.ticker])} className={selectCls}>
+            {choices.map((c) => (
+              <option key={c.ticker} value={c.ticker}>{c.ticker}</option>
+            ))}
+          </select>
+          /
+          <select value={b.ticker} onChange={(e) => setPair([a.ticker, e.target.value])} className={selectCls}>
+            {choices.map((c) => (
+              <option key={c.ticker} value={c.ticker}>{c.ticker}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {!win ? (
+        <div className="text-sm text-gray-500 dark:text-muted-dark">Not enough history: at least {2 * ROLLING_WINDOWS[0]} days are needed.</div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          <RollingChart
+            title="Portfolio volatility (annualized)"
+            data={data}
+            lines={[{ key: "Volatility", color: "#2563eb" }, ...(ewma ? [{ key: "EWMA", color: "#9333ea", dashed: true }] : [])]}
+            format={(v) => toPct(v, 1)}
+          />
+          <RollingChart title={`Portfolio beta vs ${bench.ticker}`} data={data} lines={[{ key: "Beta", color: "#16a34a" }]} format={(v) => v.toFixed(2)} />
+          <RollingChart title={`1-day VaR ${toConf(conf)}`} data={data} lines={[{ key: "VaR", color: "#ef4444" }]} format={(v) => toPct(v)} />
+          <RollingChart title={`Correlation ${a.ticker} / ${b.ticker}`} data={data} lines={[{ key: "Correlation", color: "#ca8a04" }]} format={(v) => v.toFixed(2)} />
+        </div>
+      )}
+      <div className="mt-3 text-xs text-gray-500 dark:text-muted-dark">
+        Each point uses only the trailing window ending that day. EWMA weights recent days more heavily and reacts faster to regime changes.
+      </div>
+    </div>
+  );
+}
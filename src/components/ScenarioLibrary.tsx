@@ -0,0 +1,146 @@
+import React from "react";
+import { FACTORS, PRESET_SCENARIOS, newScenarioId, type Exposures, type Factor, type Scenario } from "../lib/scenarios";
+
+type Props = {
+  assets: Array<{ ticker: string; color: string }>;
+  exposures: Exposures[];
+  onExposureChange: (ticker: string, factor: Factor, value: number) => void;
+  custom: Scenario[];
+  onCustomChange: (s: Scenario[]) => void;
+};
+
+const inputCls = "w-20 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-1 py-0.5 text-right";
+
+// "%" factors are edited in percent, "bp" factors as-is
+const toInput = (unit: string, v: number | undefined) => (v === undefined ? "" : unit === "%" ? +(v * 100).toFixed(4) : v);
+const fromInput = (unit: string, raw: string) => (raw === "" ? undefined : unit === "%" ? parseFloat(raw) / 100 : parseFloat(raw));
+
+function describe(s: Scenario) {
+  return FACTORS.filter((f) => s.factors[f.key] !== undefined)
+    .map((f) => {
+      const v = s.factors[f.key]!;
+      return `${f.label} ${v > 0 ? "+" : ""}${f.unit === "%" ? `${+(v * 100).toFixed(1)}%` : `${v}bp`}`;
+    })
+    .join(", ");
+}
+
+export default function ScenarioLibrary({ assets, exposures, onExposureChange, custom, onCustomChange }: Props) {
+  function patch(id: string, p: (s: Scenario) => Scenario) {
+    onCustomChange(custom.map((s) => (s.id === id ? p(s) : s)));
+  }
+
+  function setFactor(id: string, f: Factor, v: number | undefined) {
+    patch(id, (s) => {
+      const factors = { ...s.factors };
+      if (v === undefined || Number.isNaN(v)) delete factors[f];
+      else factors[f] = v;
+      return { ...s, factors };
+    });
+  }
+
+  function setAsset(id: string, ticker: string, v: number | undefined) {
+    patch(id, (s) => {
+      const shocks = { ...s.assets };
+      if (v === undefined || Number.isNaN(v)) delete shocks[ticker];
+      else shocks[ticker] = v;
+      return { ...s, assets: shocks };
+    });
+  }
+
+  function add() {
+    onCustomChange([...custom, { id: newScenarioId(), name: `Custom scenario ${custom.length + 1}`, factors: { equity: -0.1, rates: 100 }, assets: {} }]);
+  }
+
+  return (
+    <div className="card md:col-span-2">
+      <h2 className="font-medium mb-3">Scenario Library</h2>
+      <ul className="text-sm grid gap-1">
+        {PRESET_SCENARIOS.map((s) => (
+          <li key={s.id}>
+            <span className="font-medium">{s.name}</span> <span className="text-gray-500 dark:text-muted-dark">· {describe(s)}</span>
+          </li>
+        ))}
+      </ul>
+
+      {custom.map((s) => (
+        <div key={s.id} className="mt-4 rounded-xl border border-gray-200 dark:border-gray-800 p-3">
+          <div className="flex items-center gap-2">
+            <input
+              aria-label="Scenario name"
+              value={s.name}
+              onChange={(e) => patch(s.id, (x) => ({ ...x, name: e.target.value }))}
+              className="flex-1 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1 text-sm font-medium"
+            />
+            <button onClick={() => onCustomChange(custom.filter((x) => x.id !== s.id))} className="px-2 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-white/10" aria-label={`Remove ${s.name}`}>
+              ×
+            </button>
+          </div>
+          <div className="mt-2 flex flex-wrap gap-3 text-sm">
+            {FACTORS.map((f) => (
+              <label key={f.key} className="flex items-center gap-1">
+                {f.label}
+                <input type="number" value={toInput(f.unit, s.factors[f.key])} onChange={(e) => setFactor(s.id, f.key, fromInput(f.unit, e.target.value))} className={inputCls} />
+                {f.unit}
+              </label>
+            ))}
+          </div>
+          <div className="mt-2 flex flex-wrap gap-3 text-sm">
+            {assets.map((a) => (
+              <label key={a.ticker} className="flex items-center gap-1">
+                <span style={{ color: a.color }}>{a.ticker}</span>
+                <input
+                  type="number"
+                  placeholder="factor"
+                  value={toInput("%", s.assets[a.ticker])}
+                  onChange={(e) => setAsset(s.id, a.ticker, fromInput("%", e.target.value))}
+                  className={inputCls}
+                />
+                %
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+      <button onClick={add} className="mt-3 px-3 py-1 rounded-xl border border-gray-200 dark:border-gray-700 text-sm hover:bg-gray-50 dark:hover:bg-white/10">+ Add scenario</button>
+
+      <h3 className="font-medium mt-5 mb-2 text-sm">Factor exposures</h3>
+      <div className="overflow-x-auto">
+        <table className="text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-muted-dark">
+              <th className="py-1 pr-3">Asset</th>
+              {FACTORS.map((f) => (
+                <th key={f.key} className="pr-3">{f.exposure}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {assets.map((a, i) => (
+              <tr key={a.ticker}>
+                <td className="py-1 pr-3 font-medium" style={{ color: a.color }}>{a.ticker}</td>
+                {FACTORS.map((f) => (
+                  <td key={f.key} className="pr-3">
+                    <input
+                      aria-label={`${a.ticker} ${f.exposure}`}
+                      type="number"
+                      step={0.1}
+                      value={+exposures[i][f.key].toFixed(3)}
+                      onChange={(e) => {
+                        const v = parseFloat(e.target.value);
+                        if (!Number.isNaN(v)) onExposureChange(a.ticker, f.key, v);
+                      }}
+                      className={inputCls}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-3 text-xs text-gray-500 dark:text-muted-dark">
+        Asset moves = β × equity + gold β × gold − duration × Δrates − spread duration × Δspreads. A direct asset shock replaces the factor-implied move; leave it blank to use the factors.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import React, { useState } from "react";
+import { reverseStress, runScenario, type Exposures, type Scenario } from "../lib/scenarios";
+import { toMoney, toPct } from "../lib/format";
+
+type Props = {
+  assets: Array<{ ticker: string; color: string }>;
+  w: number[];
+  exposures: Exposures[];
+  scenarios: Scenario[];
+  notional: number;
+  benchTicker: string;
+  benchSensitivity: number; // portfolio return per unit benchmark return
+};
+
+export default function ScenarioResults({ assets, w, exposures, scenarios, notional, benchTicker, benchSensitivity }: Props) {
+  const [targetLoss, setTargetLoss] = useState(0.1);
+  const tickers = assets.map((a) => a.ticker);
+  const results = scenarios.map((s) => runScenario(tickers, exposures, w, s));
+  const move = reverseStress(benchSensitivity, targetLoss);
+
+  return (
+    <div className="card">
+      <h3 className="font-medium mb-3">Scenario Comparison</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-muted-dark align-bottom">
+              <th className="py-1 px-2">Asset (weight)</th>
+              {scenarios.map((s) => (
+                <th key={s.id} className="px-2 text-right">{s.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {assets.map((a, i) => (
+              <tr key={a.ticker}>
+                <td className="py-1 px-2 font-medium whitespace-nowrap" style={{ color: a.color }}>
+                  {a.ticker} <span className="font-normal text-gray-500 dark:text-muted-dark">({toPct(w[i] ?? 0, 0)})</span>
+                </td>
+                {results.map((r, k) => (
+                  <td key={scenarios[k].id} className="px-2 text-right whitespace-nowrap">
+                    <div>{toPct(r.shocks[i], 1)}</div>
+                    <div className={`text-xs ${r.contributions[i] < 0 ? "text-red-600 dark:text-red-400" : "text-gray-500 dark:text-muted-dark"}`}>{toMoney(r.contributions[i] * notional)}</div>
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr className="border-t border-gray-200 dark:border-gray-800 font-semibold">
+              <td className="py-1 px-2">Portfolio</td>
+              {results.map((r, k) => (
+                <td key={scenarios[k].id} className="px-2 text-right whitespace-nowrap">
+                  <div>{toPct(r.total)}</div>
+                  <div className={`text-xs ${r.total < 0 ? "text-red-600 dark:text-red-400" : ""}`}>{toMoney(r.total * notional)}</div>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">Reverse stress:</span> a loss of
+        <input
+          aria-label="Target loss (%)"
+          type="number"
+          min={0}
+          step={1}
+          value={+(targetLoss * 100).toFixed(2)}
+          onChange={(e) => setTargetLoss(Math.max(0, parseFloat(e.target.value) || 0) / 100)}
+          className="w-16 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-1 py-0.5 text-right"
+        />
+        % ({toMoney(targetLoss * notional)}) needs
+        {move === null ? (
+          <span className="font-semibold">no {benchTicker} move (the portfolio does not respond to it)</span>
+        ) : (
+          <span className="font-semibold">a {toPct(move)} move in {benchTicker}</span>
+        )}
+      </div>
+      <div className="text-xs text-gray-500 dark:text-muted-dark mt-1">
+        Asset returns per scenario with P&L on the {toMoney(notional)} notional. Reverse stress uses the same correlation propagation as the benchmark shock.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+import { downloadFile } from "../lib/download";
+import { libraryFromJson, libraryToJson, loadLibrary, storeLibrary, type SavedPortfolio, type WizardConfig } from "../lib/session";
+
+type Props = {
+  config: WizardConfig;
+  defaults: WizardConfig; // saved and imported configs are sanitised against these
+  onLoad: (raw: unknown) => void; // raw saved config, sanitised by the wizard
+};
+
+const btnCls = "px-3 py-1 rounded-xl border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-white/10";
+const fieldCls = "rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1";
+
+export default function SessionBar({ config, defaults, onLoad }: Props) {
+  const [library, setLibrary] = useState<SavedPortfolio[]>(() => loadLibrary(defaults));
+  const [name, setName] = useState("");
+  const [selected, setSelected] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  // localStorage is small and saved setups can carry a whole imported dataset: only show the new
+  // list once it has actually been written
+  function update(list: SavedPortfolio[]) {
+    try {
+      storeLibrary(list);
+    } catch {
+      return false;
+    }
+    setLibrary(list);
+    return true;
+  }
+
+  function save() {
+    const n = name.trim();
+    if (!n) return;
+    const withEntry = (c: WizardConfig) =>
+      [...library.filter((p) => p.name !== n), { name: n, savedAt: new Date().toISOString(), config: c }].sort((a, b) => a.name.localeCompare(b.name));
+    if (update(withEntry(config))) {
+      setMessage(`Saved “${n}”.`);
+    } else if (config.dataset && update(withEntry({ ...config, dataset: null }))) {
+      setMessage(`Saved “${n}” without the imported data: browser storage is full. Use Export JSON to keep the data.`);
+    } else {
+      setMessage("Could not save: browser storage is full. Delete or export some saved portfolios first.");
+      return;
+    }
+    setSelected(n);
+    setName("");
+  }
+
+  async function copyLink() {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setMessage("Link copied. Imported data is not included in links.");
+    } catch {
+      setMessage("Copy failed: copy the address bar instead.");
+    }
+  }
+
+  async function importFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const incoming = libraryFromJson(await file.text(), defaults);
+      const names = new Set(incoming.map((p) => p.name));
+      if (update([...library.filter((p) => !names.has(p.name)), ...incoming].sort((a, b) => a.name.localeCompare(b.name)))) {
+        setMessage(`Imported ${incoming.length} portfolio${incoming.length === 1 ? "" : "s"}.`);
+      } else {
+        setMessage("Could not import: browser storage is full.");
+      }
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "That file could not be read.");
+    }
+  }
+
+  const current = library.find((p) => p.name === selected);
+
+  return (
+    <div className="card mb-6 print:hidden">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button onClick={copyLink} className={btnCls}>Copy link</button>
+        <span className="mx-1 h-5 border-l border-gray-200 dark:border-gray-800" />
+        <input aria-label="Portfolio name" placeholder="Name this setup" value={name} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => e.key === "Enter" && save()} className={`${fieldCls} w-40`} />
+        <button onClick={save} disabled={!name.trim()} className={`${btnCls} ${name.trim() ? "" : "opacity-40 cursor-not-allowed"}`}>Save</button>
+        <select aria-label="Saved portfolios" value={selected} onChange={(e) => setSelected(e.target.value)} className={fieldCls}>
+          <option value="">Saved portfolios ({library.length})</option>
+          {library.map((p) => (
+            <option key={p.name} value={p.name}>{p.name}</option>
+          ))}
+        </select>
+        <button onClick={() => current && onLoad(current.config)} disabled={!current} className={`${btnCls} ${current ? "" : "opacity-40 cursor-not-allowed"}`}>Load</button>
+        <button
+          onClick={() => {
+            if (update(library.filter((p) => p.name !== selected))) setSelected("");
+            else setMessage("Could not update browser storage.");
+          }}
+          disabled={!current}
+          className={`${btnCls} ${current ? "" : "opacity-40 cursor-not-allowed"}`}
+        >
+          Delete
+        </button>
+        <span className="mx-1 h-5 border-l border-gray-200 dark:border-gray-800" />
+        <button onClick={() => downloadFile("risk-wizard-portfolios.json", libraryToJson(library), "application/json")} disabled={library.length === 0} className={`${btnCls} ${library.length ? "" : "opacity-40 cursor-not-allowed"}`}>
+          Export JSON
+        </button>
+        <label className={`${btnCls} cursor-pointer`}>
+          Import JSON
+          <input type="file" accept=".json,application/json" onChange={importFile} className="hidden" />
+        </label>
+      </div>
+      {message && <div className="mt-2 text-xs text-gray-500 dark:text-muted-dark">{message}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import React from "react";
+import { cholesky, type Distribution, type SimulationSettings } from "../lib/simulation";
+
+type Props = {
+  tickers: string[]; // same order as settings.corr
+  settings: SimulationSettings;
+  onChange: (s: SimulationSettings) => void;
+};
+
+const DISTRIBUTIONS: Array<{ label: string; value: Distribution }> = [
+  { label: "Normal", value: "normal" },
+  { label: "Student-t", value: "student-t" },
+  { label: "Regime-switching", value: "regime" },
+];
+
+export default function SimulationPanel({ tickers, settings, onChange }: Props) {
+  const isPD = cholesky(settings.corr) !== null;
+
+  function setCorr(i: number, j: number, raw: string) {
+    const v = Math.max(-1, Math.min(1, parseFloat(raw)));
+    if (Number.isNaN(v)) return;
+    const corr = settings.corr.map((row) => [...row]);
+    corr[i][j] = v;
+    corr[j][i] = v;
+    onChange({ ...settings, corr });
+  }
+
+  return (
+    <div className="card md:col-span-2">
+      <h3 className="font-medium mb-3">Simulation settings</h3>
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <div className="flex items-center gap-2">
+          {DISTRIBUTIONS.map((d) => (
+            <button
+              key={d.value}
+              onClick={() => onChange({ ...settings, distribution: d.value })}
+              className={`px-3 py-1 rounded-full border border-gray-200 dark:border-gray-700 ${settings.distribution === d.value ? "bg-blue-600 text-white" : "bg-white dark:bg-transparent"}`}
+            >
+              {d.label}
+            </button>
+          ))}
+        </div>
+        {settings.distribution === "student-t" && (
+          <label className="flex items-center gap-2">
+            ν (df)
+            <input
+              type="number"
+              min={3}
+              max={30}
+              step={1}
+              value={settings.df}
+              onChange={(e) => onChange({ ...settings, df: Math.max(3, parseInt(e.target.value) || 3) })}
+              className="w-16 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1"
+            />
+          </label>
+        )}
+        <label className="flex items-center gap-2">
+          Seed
+          <input
+            type="number"
+            step={1}
+            value={settings.seed}
+            onChange={(e) => onChange({ ...settings, seed: parseInt(e.target.value) || 0 })}
+            className="w-24 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1"
+          />
+        </label>
+      </div>
+
+      <div className="mt-4 text-sm mb-2">Target correlations</div>
+      <div className="overflow-x-auto">
+        <table className="text-sm">
+          <thead>
+            <tr>
+              <th className="p-1" />
+              {tickers.map((t) => (
+                <th key={t} className="p-1 text-center font-medium">{t}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {tickers.map((t, i) => (
+              <tr key={t}>
+                <td className="p-1 font-medium">{t}</td>
+                {tickers.map((u, j) => (
+                  <td key={u} className="p-1 text-center">
+                    {j <= i ? (
+                      <span className="text-gray-400 dark:text-gray-500">{settings.corr[i][j].toFixed(2)}</span>
+                    ) : (
+                      <input
+                        aria-label={`Correlation ${t}/${u}`}
+                        type="number"
+                        min={-1}
+                        max={1}
+                        step={0.05}
+                        value={settings.corr[i][j]}
+                        onChange={(e) => setCorr(i, j, e.target.value)}
+                        className="w-16 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-1 py-0.5 text-center"
+                      />
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {!isPD && (
+        <div className="mt-3 text-sm text-red-600 dark:text-red-400">
+          These correlations are not jointly consistent (the matrix is not positive definite), so independent draws are used until they are fixed.
+        </div>
+      )}
+      <div className="mt-3 text-xs text-gray-500 dark:text-muted-dark">
+        Paths are drawn jointly via a Cholesky factorization; the same seed always reproduces the same sample.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import React, { useState } from "react";
+import { HORIZONS, VAR_METHODS } from "../lib/risk";
+import { MAX_SNAPSHOTS, SNAPSHOT_METRICS, sameSettings, unionTickers, weightOf, type Snapshot, type SnapshotMetrics } from "../lib/snapshots";
+import { toConf, toPct } from "../lib/format";
+
+type Column = Pick<Snapshot, "id" | "name" | "tickers" | "w" | "settings" | "metrics"> & { color?: string };
+
+type Props = {
+  assets: Array<{ ticker: string; color: string }>;
+  current: Omit<Column, "id" | "name">; // the live portfolio
+  snapshots: Snapshot[];
+  busy: boolean; // the current figures are about to be replaced
+  onPin: (name: string) => void;
+  onRemove: (id: string) => void;
+};
+
+const CURRENT = "current";
+
+const fmt = (key: keyof SnapshotMetrics, x: number) => (key === "beta" ? x.toFixed(2) : toPct(x));
+const fmtDelta = (key: keyof SnapshotMetrics, d: number) => `${d >= 0 ? "+" : "−"}${key === "beta" ? Math.abs(d).toFixed(2) : `${(Math.abs(d) * 100).toFixed(2)} pp`}`;
+
+function settingsLabel(s: Snapshot["settings"]) {
+  const h = HORIZONS.find((x) => x.days === s.horizon)?.label ?? `${s.horizon} days`;
+  return `${toConf(s.conf)} · ${h} · ${VAR_METHODS.find((m) => m.value === s.method)?.short ?? s.method} · shock ${toPct(s.shock, 1)}`;
+}
+
+// red = more risk than the baseline, green = less, amber = changed with no better/worse direction
+function changeCls(d: number, worse: "up" | "down" | null) {
+  if (Math.abs(d) < 1e-6) return "text-gray-500 dark:text-muted-dark";
+  if (!worse) return "font-semibold text-amber-700 dark:text-amber-400";
+  return (worse === "up") === d > 0 ? "font-semibold text-red-600 dark:text-red-400" : "font-semibold text-green-600 dark:text-green-400";
+}
+
+// the live portfolio next to up to four pinned snapshots, each compared with the chosen baseline
+export default function SnapshotComparison({ assets, current, snapshots, busy, onPin, onRemove }: Props) {
+  const [name, setName] = useState("");
+  const [baselineId, setBaselineId] = useState<string | null>(null);
+
+  const columns: Column[] = [{ ...current, id: CURRENT, name: "Current" }, ...snapshots];
+  // defaults to the first snapshot, so the current portfolio reads as "what changed since I pinned"
+  const baseline = columns.find((c) => c.id === baselineId) ?? columns[1] ?? columns[0];
+  const tickers = unionTickers(columns);
+  const full = snapshots.length >= MAX_SNAPSHOTS;
+
+  function pin() {
+    onPin(name.trim() || `Snapshot ${snapshots.length + 1}`);
+    setName("");
+  }
+
+  return (
+    <div className="card">
+      <h3 className="font-medium mb-3">Portfolio Snapshots</h3>
+      <div className="flex flex-wrap items-center gap-2 text-sm mb-3">
+        <input
+          aria-label="Snapshot name"
+          placeholder={`Snapshot ${snapshots.length + 1}`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && !full && !busy && pin()}
+          className="w-44 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1"
+        />
+        <button onClick={pin} disabled={full || busy} className="px-3 py-1 rounded-full border border-gray-200 dark:border-gray-700 disabled:opacity-50">
+          Pin current portfolio
+        </button>
+        <span className="text-xs text-gray-500 dark:text-muted-dark">
+          {snapshots.length}/{MAX_SNAPSHOTS} pinned{full && " · remove one to pin another"}
+        </span>
+      </div>
+
+      {snapshots.length === 0 ? (
+        <div className="text-sm text-gray-500 dark:text-muted-dark">
+          Pin the portfolio before changing weights, then compare the alternatives here and on the NAV chart.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-muted-dark align-bottom">
+                <th className="py-1 px-2">Metric</th>
+                {columns.map((c) => (
+                  <th key={c.id} className="px-2 text-right whitespace-nowrap">
+                    <div className="font-medium text-gray-900 dark:text-gray-100">
+                      {c.color && <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ background: c.color }} />}
+                      {c.name}
+                    </div>
+                    <label className="text-xs font-normal">
+                      <input type="radio" name="snapshot-baseline" checked={c.id === baseline.id} onChange={() => setBaselineId(c.id)} /> baseline
+                    </label>
+                    {c.id !== CURRENT && (
+                      <button onClick={() => onRemove(c.id)} className="ml-2 text-xs font-normal underline">
+                        remove
+                      </button>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {SNAPSHOT_METRICS.map((m) => (
+                <tr key={m.key}>
+                  <td className="py-1 px-2 font-medium">{m.label}</td>
+                  {columns.map((c) => {
+                    const d = c.metrics[m.key] - baseline.metrics[m.key];
+                    return (
+                      <td key={c.id} className="px-2 text-right whitespace-nowrap">
+                        <div>{fmt(m.key, c.metrics[m.key])}</div>
+                        {c.id !== baseline.id && <div className={`text-xs ${changeCls(d, m.worse)}`}>{fmtDelta(m.key, d)}</div>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+
+              <tr className="border-t border-gray-200 dark:border-gray-800 text-gray-500 dark:text-muted-dark">
+                <td className="pt-3 pb-1 px-2" colSpan={columns.length + 1}>Weights (% of NAV)</td>
+              </tr>
+              {tickers.map((t) => (
+                <tr key={t}>
+                  <td className="py-1 px-2 font-medium" style={{ color: assets.find((a) => a.ticker === t)?.color }}>{t}</td>
+                  {columns.map((c) => {
+                    const x = weightOf(c, t);
+                    const d = x - weightOf(baseline, t);
+                    return (
+                      <td key={c.id} className="px-2 text-right whitespace-nowrap">
+                        <div>{toPct(x, 1)}</div>
+                        {c.id !== baseline.id && (
+                          <div className={`text-xs ${Math.abs(d) < 5e-4 ? "text-gray-500 dark:text-muted-dark" : "font-semibold text-amber-700 dark:text-amber-400"}`}>
+                            {d >= 0 ? "+" : "−"}{(Math.abs(d) * 100).toFixed(1)} pp
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+
+              <tr className="border-t border-gray-200 dark:border-gray-800 text-xs text-gray-500 dark:text-muted-dark">
+                <td className="py-1 px-2">Computed at</td>
+                {columns.map((c) => (
+                  <td key={c.id} className={`px-2 text-right ${sameSettings(c.settings, current.settings) ? "" : "text-amber-700 dark:text-amber-400"}`}>
+                    {settingsLabel(c.settings)}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+      {snapshots.length > 0 && (
+        <div className="mt-2 text-xs text-gray-500 dark:text-muted-dark">
+          Snapshot figures are frozen when pinned; settings that differ from the current ones are shown in amber. Red marks more risk than the baseline, green less.
+        </div>
+      )}
+    </div>
+  );
+}
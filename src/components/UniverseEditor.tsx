@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from "react";
+import { newAssetId, validateUniverse, type AssetSpec, type Universe } from "../lib/universe";
+
+type Props = {
+  universe: Universe;
+  onChange: (u: Universe) => void; // only called with a valid universe
+};
+
+const NEW_COLORS = ["#9333ea", "#0891b2", "#db2777", "#ea580c", "#65a30d", "#4f46e5"];
+
+const inputCls = "w-full rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-transparent px-2 py-1";
+
+export default function UniverseEditor({ universe, onChange }: Props) {
+  // edits live in a draft so a half-typed ticker or a bad σ never reaches the analytics
+  const [draft, setDraft] = useState(universe);
+  useEffect(() => setDraft(universe), [universe]);
+  const errors = validateUniverse(draft);
+
+  function update(next: Universe) {
+    setDraft(next);
+    if (validateUniverse(next).length === 0) onChange(next);
+  }
+
+  function patch(id: string, p: Partial<AssetSpec>) {
+    update({ ...draft, specs: draft.specs.map((s) => (s.id === id ? { ...s, ...p } : s)) });
+  }
+
+  function add() {
+    const spec: AssetSpec = {
+      id: newAssetId(),
+      ticker: `NEW${draft.specs.length + 1}`,
+      mu: 0.0003,
+      sigma: 0.015,
+      color: NEW_COLORS[draft.specs.length % NEW_COLORS.length],
+    };
+    update({ ...draft, specs: [...draft.specs, spec] });
+  }
+
+  function remove(id: string) {
+    const specs = draft.specs.filter((s) => s.id !== id);
+    const benchmarkId = id === draft.benchmarkId ? specs[specs.length - 1]?.id ?? "" : draft.benchmarkId;
+    update({ specs, benchmarkId });
+  }
+
+  return (
+    <div>
+      <div className="overflow-x-auto -mx-2 sm:mx-0">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-muted-dark">
+              <th className="py-1 px-2">Ticker</th>
+              <th className="px-2">μ (daily %)</th>
+              <th className="px-2">σ (daily %)</th>
+              <th className="px-2">Colour</th>
+              <th className="px-2 text-center">Bench</th>
+              <th className="px-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.specs.map((s) => (
+              <tr key={s.id}>
+                <td className="py-1 px-2 min-w-[5rem]">
+                  <input
+                    aria-label="Ticker"
+                    value={s.ticker}
+                    onChange={(e) => patch(s.id, { ticker: e.target.value.toUpperCase() })}
+                    className={`${inputCls} font-medium`}
+                    style={{ color: s.color }}
+                  />
+                </td>
+                <td className="px-2 min-w-[5rem]">
+                  <input
+                    aria-label={`${s.ticker} mean daily return`}
+                    type="number"
+                    step={0.01}
+                    value={Number.isFinite(s.mu) ? +(s.mu * 100).toFixed(4) : ""}
+                    onChange={(e) => patch(s.id, { mu: parseFloat(e.target.value) / 100 })}
+                    className={inputCls}
+                  />
+                </td>
+                <td className="px-2 min-w-[5rem]">
+                  <input
+                    aria-label={`${s.ticker} daily volatility`}
+                    type="number"
+                    step={0.1}
+                    min={0}
+                    value={Number.isFinite(s.sigma) ? +(s.sigma * 100).toFixed(4) : ""}
+                    onChange={(e) => patch(s.id, { sigma: parseFloat(e.target.value) / 100 })}
+                    className={inputCls}
+                  />
+                </td>
+                <td className="px-2">
+                  <input aria-label={`${s.ticker} colour`} type="color" value={s.color} onChange={(e) => patch(s.id, { color: e.target.value })} className="h-7 w-10 bg-transparent" />
+                </td>
+                <td className="px-2 text-center">
+                  <input aria-label={`Use ${s.ticker} as benchmark`} type="radio" checked={draft.benchmarkId === s.id} onChange={() => update({ ...draft, benchmarkId: s.id })} />
+                </td>
+                <td className="px-2 text-right">
+                  <button
+                    onClick={() => remove(s.id)}
+                    disabled={draft.specs.length <= 2}
+                    className={`px-2 rounded-lg text-gray-500 ${draft.specs.length <= 2 ? "opacity-40 cursor-not-allowed" : "hover:bg-gray-100 dark:hover:bg-white/10"}`}
+                    aria-label={`Remove ${s.ticker}`}
+                  >
+                    ×
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button onClick={add} className="mt-3 px-3 py-1 rounded-xl border border-gray-200 dark:border-gray-700 text-sm hover:bg-gray-50 dark:hover:bg-white/10">+ Add asset</button>
+      {errors.length > 0 && (
+        <ul className="mt-3 text-sm text-red-600 dark:text-red-400">
+          {errors.map((e) => (
+            <li key={e}>{e}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
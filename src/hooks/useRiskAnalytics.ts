@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from "react";
+import { analyzePortfolio, riskView, type Asset, type EngineCache, type RiskView, type WeightMode } from "../lib/engine";
+import type { CovSettings } from "../lib/covariance";
+import type { MonteCarloSettings } from "../lib/monteCarlo";
+import type { WorkerRequest, WorkerResponse } from "../lib/analytics.worker";
+
+type Inputs = {
+  assets: Asset[];
+  benchmark: Asset;
+  weights: number[];
+  mode: WeightMode;
+  cashRate: number;
+  conf: number;
+  horizon: number;
+  shock: number;
+  mc: MonteCarloSettings;
+  covariance: CovSettings;
+};
+
+export type AnalyticsProgress = { fraction: number; stage: string };
+
+export type AnalyticsState = {
+  report: RiskView | null; // latest report for the current data; null until the first one arrives
+  busy: boolean; // a newer report is being computed
+  progress: AnalyticsProgress | null;
+  error: string | null;
+};
+
+// the asset data a report was computed from; a report is shown only while these are still current
+type DataVersion = { key: number; assets: Asset[]; benchmark: Asset; mc: MonteCarloSettings; covariance: CovSettings };
+
+const slim = (a: Asset): Asset => ({ ticker: a.ticker, returns: a.returns });
+
+const sameData = (d: DataVersion, i: Pick<Inputs, "assets" | "benchmark" | "mc" | "covariance">) =>
+  d.assets === i.assets && d.benchmark === i.benchmark && d.mc === i.mc && d.covariance === i.covariance;
+
+// The weight-independent statistics are the same in every report on the same data, but each worker
+// reply is a fresh copy. Keep the first copy so memos on them (the optimizer) rerun only when the data does.
+function keepStats(prev: { data: DataVersion; report: RiskView } | null, data: DataVersion, report: RiskView) {
+  if (!prev || prev.data !== data) return { data, report };
+  const { covMatrix, covInfo, corrMatrix, means, betas, benchResponse } = prev.report;
+  return { data, report: { ...report, covMatrix, covInfo, corrMatrix, means, betas, benchResponse } };
+}
+
+// Runs the risk engine in a Web Worker. Asset data is posted once per change; weight and setting
+// changes only post a small request, and replies to superseded requests are ignored. A run still
+// busy with data that has since changed is cancelled by terminating the worker.
+export default function useRiskAnalytics({ assets, benchmark, weights, mode, cashRate, conf, horizon, shock, mc, covariance }: Inputs): AnalyticsState {
+  // the asset data the worker has cached; its key is bumped in the effect that posts it
+  const dataRef = useRef<DataVersion | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const latest = useRef(0);
+  const busyRef = useRef(false);
+  const syncCache = useRef<{ key: number; cache: EngineCache }>({ key: 0, cache: {} });
+  const [result, setResult] = useState<{ data: DataVersion; report: RiskView } | null>(null);
+  const [progress, setProgress] = useState<AnalyticsProgress | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function finish() {
+    busyRef.current = false;
+    setBusy(false);
+    setProgress(null);
+  }
+
+  function getWorker() {
+    if (workerRef.current) return workerRef.current;
+    const worker = new Worker(new URL("../lib/analytics.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const msg = e.data;
+      if (msg.id !== latest.current) return; // superseded
+      if (msg.type === "progress") {
+        setProgress({ fraction: msg.fraction, stage: msg.stage });
+      } else if (msg.type === "result") {
+        const data = dataRef.current;
+        if (data && data.key === msg.key) setResult((prev) => keepStats(prev, data, msg.report));
+        setError(null);
+        finish();
+      } else {
+        setError(msg.message);
+        finish();
+      }
+    };
+    worker.onerror = (e) => {
+      setError(`Analytics worker failed: ${e.message}`);
+      finish();
+    };
+    workerRef.current = worker;
+    return worker;
+  }
+
+  function send(msg: WorkerRequest) {
+    getWorker().postMessage(msg);
+  }
+
+  useEffect(
+    () => () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    },
+    [],
+  );
+
+  useEffect(() => {
+    const key = (dataRef.current?.key ?? 0) + 1;
+    dataRef.current = { key, assets, benchmark, mc, covariance };
+    if (typeof Worker === "undefined") return;
+    if (busyRef.current && workerRef.current) {
+      workerRef.current.terminate();
+      workerRef.current = null;
+    }
+    send({ type: "data", key, assets: assets.map(slim), benchmark: slim(benchmark), mc, covariance });
+  }, [assets, benchmark, mc, covariance]);
+
+  useEffect(() => {
+    const id = ++latest.current;
+    const data = dataRef.current!; // set by the effect above, which runs first
+
+    // no worker support (older browsers, tests): compute in place with the same cache
+    if (typeof Worker === "undefined") {
+      if (syncCache.current.key !== data.key) syncCache.current = { key: data.key, cache: {} };
+      try {
+        const report = analyzePortfolio({ portfolio: { assets, weights, benchmark, mode, cashRate }, conf, horizon, shock, mc, covariance }, syncCache.current.cache);
+        setResult({ data, report: riskView(report) });
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+      return;
+    }
+
+    busyRef.current = true;
+    setBusy(true);
+    send({ type: "analyze", id, key: data.key, weights, mode, cashRate, conf, horizon, shock });
+  }, [assets, benchmark, mc, covariance, weights, mode, cashRate, conf, horizon, shock]);
+
+  const current = result && sameData(result.data, { assets, benchmark, mc, covariance });
+  return { report: current ? result.report : null, busy, progress, error };
+}
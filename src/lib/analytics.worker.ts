@@ -0,0 +1,76 @@
+// ---------- analytics worker ---------- //
+// Runs analyzePortfolio() off the main thread. The data is sent once per change ("data"),
+// then every weight/setting change is a cheap "analyze" request against the cached statistics.
+// Requests that queue up while a run is in progress are coalesced: only the newest one runs.
+// Replies carry only the RiskView; the Monte Carlo scenarios stay here in the cache.
+
+import { analyzePortfolio, riskView, type Asset, type EngineCache, type RiskView, type WeightMode } from "./engine";
+import type { CovSettings } from "./covariance";
+import type { MonteCarloSettings } from "./monteCarlo";
+
+export type WorkerRequest =
+  | { type: "data"; key: number; assets: Asset[]; benchmark: Asset; mc: MonteCarloSettings; covariance: CovSettings }
+  | {
+      type: "analyze";
+      id: number;
+      key: number;
+      weights: number[];
+      mode: WeightMode;
+      cashRate: number;
+      conf: number;
+      horizon: number;
+      shock: number;
+    };
+
+export type WorkerResponse =
+  | { type: "progress"; id: number; fraction: number; stage: string }
+  | { type: "result"; id: number; key: number; report: RiskView }
+  | { type: "error"; id: number; message: string };
+
+type DataMessage = Extract<WorkerRequest, { type: "data" }>;
+type AnalyzeMessage = Extract<WorkerRequest, { type: "analyze" }>;
+
+let data: DataMessage | null = null;
+let cache: EngineCache = {};
+let pending: AnalyzeMessage | null = null;
+let scheduled = false;
+
+const post = (msg: WorkerResponse) => self.postMessage(msg);
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const msg = e.data;
+  if (msg.type === "data") {
+    data = msg;
+    cache = {};
+    return;
+  }
+  pending = msg; // a newer request supersedes one still waiting
+  if (!scheduled) {
+    scheduled = true;
+    setTimeout(run, 0); // lets the rest of the message queue drain first
+  }
+};
+
+function run() {
+  scheduled = false;
+  const req = pending;
+  pending = null;
+  if (!req || !data || req.key !== data.key) return; // stale: the data has moved on
+  try {
+    const report = analyzePortfolio(
+      {
+        portfolio: { assets: data.assets, weights: req.weights, benchmark: data.benchmark, mode: req.mode, cashRate: req.cashRate },
+        conf: req.conf,
+        horizon: req.horizon,
+        shock: req.shock,
+        mc: data.mc,
+        covariance: data.covariance,
+      },
+      cache,
+      (fraction, stage) => post({ type: "progress", id: req.id, fraction, stage }),
+    );
+    post({ type: "result", id: req.id, key: req.key, report: riskView(report) });
+  } catch (err) {
+    post({ type: "error", id: req.id, message: err instanceof Error ? err.message : String(err) });
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { backtestVaR, christoffersenIndependence, kupiecPOF, trafficLight } from "./backtest";
+
+describe("kupiecPOF", () => {
+  it("is zero when the exception rate equals the target", () => {
+    const r = kupiecPOF(100, 5, 0.05);
+    expect(r.lr).toBeCloseTo(0, 12);
+    expect(r.pValue).toBeCloseTo(1, 6);
+  });
+
+  it("matches hand-computed likelihood ratios", () => {
+    // no exceptions in 250 days at 1%: LR = −2·250·ln(0.99)
+    const none = kupiecPOF(250, 0, 0.01);
+    expect(none.lr).toBeCloseTo(5.025168, 6);
+    expect(none.pValue).toBeCloseTo(0.02498, 4);
+    const many = kupiecPOF(250, 10, 0.01);
+    expect(many.lr).toBeCloseTo(12.955491, 6);
+    expect(many.pValue).toBeCloseTo(0.000319, 5);
+  });
+
+  it("has no evidence against the model without observations", () => {
+    expect(kupiecPOF(0, 0, 0.01)).toEqual({ lr: 0, pValue: 1 });
+  });
+});
+
+describe("christoffersenIndependence", () => {
+  it("is zero without exceptions", () => {
+    expect(christoffersenIndependence(Array(50).fill(false)).lr).toBe(0);
+  });
+
+  it("matches the hand-computed LR for clustered exceptions", () => {
+    // transitions: n00 = 23, n01 = 2, n10 = 2, n11 = 2
+    const hits = [...Array(10).fill(false), true, true, ...Array(10).fill(false), true, true, ...Array(6).fill(false)];
+    const r = christoffersenIndependence(hits);
+    expect(r.lr).toBeCloseTo(3.785366, 6);
+    expect(r.pValue).toBeCloseTo(0.0517, 4);
+  });
+
+  it("is zero when every day is an exception", () => {
+    expect(christoffersenIndependence(Array(40).fill(true)).lr).toBe(0);
+  });
+});
+
+describe("trafficLight", () => {
+  it("reproduces the Basel zones at 250 days and 99%", () => {
+    expect(trafficLight(250, 0, 0.01)).toBe("green");
+    expect(trafficLight(250, 4, 0.01)).toBe("green");
+    expect(trafficLight(250, 5, 0.01)).toBe("yellow");
+    expect(trafficLight(250, 9, 0.01)).toBe("yellow");
+    expect(trafficLight(250, 10, 0.01)).toBe("red");
+  });
+});
+
+describe("backtestVaR", () => {
+  it("counts exceptions out of sample and reports the expected number", () => {
+    // a quiet window, then a single large loss the window's VaR cannot cover
+    const returns = [...Array.from({ length: 30 }, (_, t) => (t % 2 ? 0.001 : -0.001)), -0.05, 0.001];
+    const r = backtestVaR(returns, 30, 0.99, "historical");
+    expect(r.observations).toBe(2);
+    expect(r.exceptions).toBe(1);
+    expect(r.points[0].exception).toBe(true);
+    expect(r.expected).toBeCloseTo(0.02, 12);
+  });
+});
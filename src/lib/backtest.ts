@@ -0,0 +1,107 @@
+// ---------- VaR backtesting ---------- //
+// Rolling out-of-sample VaR: each day is compared with a VaR estimated from the
+// preceding `window` days only, and a loss beyond it counts as an exception.
+
+import { historicalTail, parametricTail } from "./risk";
+import { mean, normalCdf, std } from "./stats";
+
+export type BacktestMethod = "historical" | "parametric";
+
+export type TrafficLight = "green" | "yellow" | "red";
+
+export type BacktestPoint = { idx: number; pnl: number; var: number; exception: boolean };
+
+export type LikelihoodTest = { lr: number; pValue: number };
+
+export type BacktestResult = {
+  points: BacktestPoint[];
+  observations: number;
+  exceptions: number;
+  expected: number;
+  kupiec: LikelihoodTest; // unconditional coverage (proportion of failures)
+  christoffersen: LikelihoodTest; // independence of exceptions
+  conditional: LikelihoodTest; // joint coverage + independence
+  zone: TrafficLight;
+};
+
+// x·ln(y) with the 0·ln(0) = 0 convention
+function xlog(x: number, y: number) {
+  return x === 0 ? 0 : x * Math.log(y);
+}
+
+function chi2Sf1(x: number) {
+  return x <= 0 ? 1 : 2 * (1 - normalCdf(Math.sqrt(x)));
+}
+
+function chi2Sf2(x: number) {
+  return Math.exp(-x / 2);
+}
+
+export function kupiecPOF(n: number, x: number, p: number): LikelihoodTest {
+  if (n === 0) return { lr: 0, pValue: 1 };
+  const phat = x / n;
+  const lr = -2 * (xlog(n - x, 1 - p) + xlog(x, p) - xlog(n - x, 1 - phat) - xlog(x, phat));
+  return { lr: Math.max(0, lr), pValue: chi2Sf1(lr) };
+}
+
+export function christoffersenIndependence(hits: boolean[]): LikelihoodTest {
+  let n00 = 0;
+  let n01 = 0;
+  let n10 = 0;
+  let n11 = 0;
+  for (let t = 1; t < hits.length; t++) {
+    if (hits[t - 1]) hits[t] ? n11++ : n10++;
+    else hits[t] ? n01++ : n00++;
+  }
+  const pi0 = n01 / Math.max(1, n00 + n01);
+  const pi1 = n11 / Math.max(1, n10 + n11);
+  const pi = (n01 + n11) / Math.max(1, n00 + n01 + n10 + n11);
+  const lr = -2 * (xlog(n00 + n10, 1 - pi) + xlog(n01 + n11, pi) - xlog(n00, 1 - pi0) - xlog(n01, pi0) - xlog(n10, 1 - pi1) - xlog(n11, pi1));
+  return { lr: Math.max(0, lr), pValue: chi2Sf1(lr) };
+}
+
+// P(X <= x) for X ~ Binomial(n, p), summed in log space
+function binomialCdf(x: number, n: number, p: number) {
+  let logPmf = n * Math.log(1 - p); // k = 0
+  let cdf = Math.exp(logPmf);
+  for (let k = 1; k <= x; k++) {
+    logPmf += Math.log((n - k + 1) / k) + Math.log(p / (1 - p));
+    cdf += Math.exp(logPmf);
+  }
+  return Math.min(1, cdf);
+}
+
+// Basel zones generalised to any sample size: green below the 95% cumulative
+// binomial probability, red from 99.99% (0–4 / 5–9 / 10+ at 250 days and 99%)
+export function trafficLight(n: number, x: number, p: number): TrafficLight {
+  const c = binomialCdf(x, n, p);
+  if (c < 0.95) return "green";
+  if (c < 0.9999) return "yellow";
+  return "red";
+}
+
+export function backtestVaR(returns: number[], window: number, conf: number, method: BacktestMethod): BacktestResult {
+  const points: BacktestPoint[] = [];
+  for (let t = window; t < returns.length; t++) {
+    const hist = returns.slice(t - window, t);
+    const v = method === "historical" ? historicalTail(hist, conf).var : parametricTail(mean(hist), std(hist), conf).var;
+    points.push({ idx: t, pnl: returns[t], var: v, exception: returns[t] < -v });
+  }
+  const hits = points.map((p) => p.exception);
+  const n = points.length;
+  const x = hits.filter(Boolean).length;
+  const p = 1 - conf;
+  const kupiec = kupiecPOF(n, x, p);
+  const christoffersen = christoffersenIndependence(hits);
+  const lrCC = kupiec.lr + christoffersen.lr;
+  return {
+    points,
+    observations: n,
+    exceptions: x,
+    expected: n * p,
+    kupiec,
+    christoffersen,
+    conditional: { lr: lrCC, pValue: chi2Sf2(lrCC) },
+    zone: trafficLight(n, x, p),
+  };
+}
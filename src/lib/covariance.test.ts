@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { covarianceMatrix, ewmaCovariance, ledoitWolf, repairPD, symmetricEigen } from "./covariance";
+
+// deterministic pseudo-random daily returns, one row per series
+function panel(p: number, n: number, seed: number) {
+  let s = seed;
+  const next = () => (s = (s * 16807) % 2147483647) / 2147483647 - 0.5;
+  const common = Array.from({ length: n }, next);
+  return Array.from({ length: p }, (_, i) => Array.from({ length: n }, (_, t) => 0.02 * (((i % 3) + 1) * 0.3 * common[t] + next())));
+}
+
+function expectMatrixClose(a: number[][], b: number[][], digits: number) {
+  a.forEach((row, i) => row.forEach((x, j) => expect(x).toBeCloseTo(b[i][j], digits)));
+}
+
+describe("covarianceMatrix", () => {
+  it("matches hand-computed sample covariances", () => {
+    const M = covarianceMatrix([
+      [1, 2, 3, 4],
+      [2, 4, 6, 8],
+      [4, 3, 2, 1],
+    ]);
+    // var(1..4) = 5/3 with the n − 1 divisor
+    expectMatrixClose(M, [[5 / 3, 10 / 3, -5 / 3], [10 / 3, 20 / 3, -10 / 3], [-5 / 3, -10 / 3, 5 / 3]], 12);
+  });
+});
+
+describe("ewmaCovariance", () => {
+  const X = panel(3, 120, 7);
+  const n = X[0].length;
+  const sample = covarianceMatrix(X);
+
+  it("with λ = 1 is the equally weighted (n divisor) sample covariance", () => {
+    expectMatrixClose(ewmaCovariance(X, 1).map((row) => row.map((x) => (x * n) / (n - 1))), sample, 14);
+  });
+
+  it("approaches the sample covariance as λ → 1", () => {
+    const gap = (lambda: number) => Math.abs(ewmaCovariance(X, lambda)[0][1] * (n / (n - 1)) - sample[0][1]);
+    expect(gap(0.99999)).toBeLessThan(gap(0.999));
+    expect(gap(0.999)).toBeLessThan(gap(0.94));
+    expect(gap(0.99999)).toBeLessThan(1e-3 * Math.abs(sample[0][0]));
+  });
+
+  it("is symmetric", () => {
+    const E = ewmaCovariance(X, 0.94);
+    E.forEach((row, i) => row.forEach((x, j) => expect(x).toBeCloseTo(E[j][i], 15)));
+  });
+});
+
+describe("ledoitWolf", () => {
+  it("keeps the shrinkage intensity in [0, 1], including more assets than days", () => {
+    for (const [p, n, seed] of [
+      [3, 250, 1],
+      [8, 60, 2],
+      [12, 10, 3],
+      [5, 5, 4],
+    ]) {
+      const { shrinkage, matrix } = ledoitWolf(panel(p, n, seed));
+      expect(shrinkage).toBeGreaterThanOrEqual(0);
+      expect(shrinkage).toBeLessThanOrEqual(1);
+      matrix.forEach((row, i) => row.forEach((x, j) => expect(x).toBeCloseTo(matrix[j][i], 15)));
+    }
+  });
+
+  it("does not shrink two assets, whose constant-correlation target is the sample itself", () => {
+    const X = panel(2, 100, 5);
+    const { shrinkage, matrix } = ledoitWolf(X);
+    expect(shrinkage).toBe(0);
+    expectMatrixClose(matrix, covarianceMatrix(X), 14);
+  });
+});
+
+describe("repairPD", () => {
+  // pairwise correlations that cannot hold together: not positive semi-definite
+  const bad = [
+    [1, 0.9, 0.9],
+    [0.9, 1, -0.9],
+    [0.9, -0.9, 1],
+  ];
+
+  it("leaves a positive-definite matrix untouched", () => {
+    const M = [
+      [0.04, 0.01],
+      [0.01, 0.09],
+    ];
+    const r = repairPD(M);
+    expect(r.repaired).toBe(false);
+    expect(r.matrix).toBe(M);
+  });
+
+  it("returns a symmetric positive semi-definite matrix with the original variances", () => {
+    const r = repairPD(bad);
+    expect(r.repaired).toBe(true);
+    expect(r.minEigenvalue).toBeLessThan(0);
+    r.matrix.forEach((row, i) => {
+      expect(row[i]).toBeCloseTo(bad[i][i], 12);
+      row.forEach((x, j) => expect(x).toBe(r.matrix[j][i]));
+    });
+    expect(Math.min(...symmetricEigen(r.matrix).values)).toBeGreaterThan(0);
+  });
+
+  it("keeps a zero variance lifted rather than singular", () => {
+    const r = repairPD([
+      [1, 0],
+      [0, 0],
+    ]);
+    expect(r.repaired).toBe(true);
+    expect(r.matrix[1][1]).toBeGreaterThan(0);
+    expect(r.matrix[0][0]).toBeCloseTo(1, 12);
+  });
+});
@@ -0,0 +1,178 @@
+// ---------- covariance estimators ---------- //
+// Sample, exponentially weighted and Ledoit–Wolf (constant-correlation target) estimates of the
+// daily covariance matrix, plus a positive-definiteness check with eigenvalue-clipping repair.
+
+import { mean } from "./stats";
+
+export type CovEstimator = "sample" | "ewma" | "ledoit-wolf";
+
+export type CovSettings = { estimator: CovEstimator; lambda: number };
+
+export const COV_ESTIMATORS: Array<{ value: CovEstimator; label: string }> = [
+  { value: "sample", label: "Sample" },
+  { value: "ewma", label: "EWMA" },
+  { value: "ledoit-wolf", label: "Ledoit–Wolf" },
+];
+
+export type CovEstimate = {
+  matrix: number[][];
+  shrinkage: number | null; // Ledoit–Wolf intensity δ ∈ [0, 1]
+  minEigenvalue: number; // of the raw estimate
+  repaired: boolean; // raw estimate was not positive definite and has been clipped
+};
+
+// each mean is taken once and the matrix filled symmetrically, instead of covariance() per pair
+export function covarianceMatrix(series: number[][]) {
+  const n = series.length;
+  const means = series.map(mean);
+  const M: number[][] = Array.from({ length: n }, () => Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = i; j < n; j++) {
+      const a = series[i];
+      const b = series[j];
+      const len = Math.min(a.length, b.length);
+      let s = 0;
+      for (let t = 0; t < len; t++) s += (a[t] - means[i]) * (b[t] - means[j]);
+      M[i][j] = M[j][i] = s / (len - 1);
+    }
+  }
+  return M;
+}
+
+function demeaned(series: number[][]) {
+  return series.map((s) => {
+    const m = mean(s);
+    return s.map((x) => x - m);
+  });
+}
+
+// weights λ^(n−1−t), normalized, on mean-adjusted returns: recent days count most
+export function ewmaCovariance(series: number[][], lambda: number) {
+  const X = demeaned(series);
+  const n = X.length ? X[0].length : 0;
+  const wt: number[] = [];
+  let total = 0;
+  for (let t = 0; t < n; t++) {
+    wt.push(lambda ** (n - 1 - t));
+    total += wt[t];
+  }
+  return X.map((a) =>
+    X.map((b) => {
+      let s = 0;
+      for (let t = 0; t < n; t++) s += wt[t] * a[t] * b[t];
+      return s / total;
+    }),
+  );
+}
+
+// Ledoit & Wolf (2004), "Honey, I shrunk the sample covariance matrix": the optimal blend
+// δ·F + (1 − δ)·S of the sample covariance S and the constant-correlation matrix F
+export function ledoitWolf(series: number[][]) {
+  const p = series.length;
+  const X = demeaned(series);
+  const n = p ? X[0].length : 0;
+  const S = X.map((a) => X.map((b) => a.reduce((s, x, t) => s + x * b[t], 0) / n)); // MLE scaling, as in the paper
+  const sd = S.map((row, i) => Math.sqrt(row[i]));
+
+  let rSum = 0;
+  for (let i = 0; i < p; i++) for (let j = i + 1; j < p; j++) rSum += sd[i] * sd[j] === 0 ? 0 : S[i][j] / (sd[i] * sd[j]);
+  const rBar = p > 1 ? (2 * rSum) / (p * (p - 1)) : 0;
+  const F = S.map((row, i) => row.map((s, j) => (i === j ? s : rBar * sd[i] * sd[j])));
+
+  // π: asymptotic variance of the sample covariances; ρ: covariance with the target; γ: misspecification
+  let pi = 0;
+  let rho = 0;
+  let gamma = 0;
+  for (let i = 0; i < p; i++) {
+    for (let j = 0; j < p; j++) {
+      let piIJ = 0;
+      let thetaII = 0;
+      let thetaJJ = 0;
+      for (let t = 0; t < n; t++) {
+        const y = X[i][t] * X[j][t] - S[i][j];
+        piIJ += y * y;
+        thetaII += (X[i][t] ** 2 - S[i][i]) * y;
+        thetaJJ += (X[j][t] ** 2 - S[j][j]) * y;
+      }
+      piIJ /= n;
+      pi += piIJ;
+      if (i === j) rho += piIJ;
+      else if (sd[i] > 0 && sd[j] > 0) rho += (rBar / 2) * ((sd[j] / sd[i]) * (thetaII / n) + (sd[i] / sd[j]) * (thetaJJ / n));
+      gamma += (F[i][j] - S[i][j]) ** 2;
+    }
+  }
+  // F = S up to rounding (always so for two assets) leaves nothing to shrink towards
+  const scale = S.reduce((acc, row) => row.reduce((a, s) => a + s * s, acc), 0);
+  const shrinkage = gamma <= 1e-20 * scale || n === 0 ? 0 : Math.max(0, Math.min(1, (pi - rho) / gamma / n));
+  // back to the n − 1 scaling used everywhere else
+  const k = n > 1 ? n / (n - 1) : 1;
+  return { matrix: S.map((row, i) => row.map((s, j) => k * (shrinkage * F[i][j] + (1 - shrinkage) * s))), shrinkage };
+}
+
+// Jacobi eigenvalue iteration for a symmetric matrix: M = V·diag(values)·Vᵀ
+export function symmetricEigen(M: number[][]) {
+  const n = M.length;
+  const A = M.map((row) => [...row]);
+  const V: number[][] = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    for (let i = 0; i < n; i++) for (let j = i + 1; j < n; j++) off += A[i][j] ** 2;
+    if (off < 1e-30) break;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (A[p][q] === 0) continue;
+        const theta = (A[q][q] - A[p][p]) / (2 * A[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = A[k][p];
+          const akq = A[k][q];
+          A[k][p] = c * akp - s * akq;
+          A[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = A[p][k];
+          const aqk = A[q][k];
+          A[p][k] = c * apk - s * aqk;
+          A[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = V[k][p];
+          const vkq = V[k][q];
+          V[k][p] = c * vkp - s * vkq;
+          V[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  return { values: A.map((row, i) => row[i]), vectors: V };
+}
+
+// eigenvalues below a small fraction of the average variance are lifted to it; the result is then
+// rescaled (D·M·D with D diagonal, which keeps it positive definite) so every variance stays as estimated
+export function repairPD(M: number[][]) {
+  const n = M.length;
+  const { values, vectors } = symmetricEigen(M);
+  const floor = (1e-8 * M.reduce((s, row, i) => s + row[i], 0)) / Math.max(1, n);
+  const minEigenvalue = Math.min(...values);
+  if (minEigenvalue > floor) return { matrix: M, minEigenvalue, repaired: false };
+  const clipped = values.map((v) => Math.max(v, floor));
+  const matrix: number[][] = Array.from({ length: n }, () => Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = i; j < n; j++) matrix[i][j] = matrix[j][i] = vectors[i].reduce((s, v, k) => s + v * clipped[k] * vectors[j][k], 0);
+  }
+  // a zero variance keeps its lifted value, otherwise the matrix would be singular again
+  const d = matrix.map((row, i) => (M[i][i] > 0 ? Math.sqrt(M[i][i] / row[i]) : 1));
+  return { matrix: matrix.map((row, i) => row.map((x, j) => d[i] * x * d[j])), minEigenvalue, repaired: true };
+}
+
+export function estimateCovariance(series: number[][], settings: CovSettings): CovEstimate {
+  let matrix: number[][];
+  let shrinkage: number | null = null;
+  if (settings.estimator === "ewma") matrix = ewmaCovariance(series, settings.lambda);
+  else if (settings.estimator === "ledoit-wolf") ({ matrix, shrinkage } = ledoitWolf(series));
+  else matrix = covarianceMatrix(series);
+  const pd = repairPD(matrix);
+  return { matrix: pd.matrix, shrinkage, minEigenvalue: pd.minEigenvalue, repaired: pd.repaired };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { analyzePortfolio, type Asset } from "./engine";
+import { historicalVaRContributions, parametricVaRContributions, scaleTo, volatilityContributions } from "./decomposition";
+
+const asset = (ticker: string, returns: number[]): Asset => ({ ticker, returns });
+
+// deterministic, non-collinear daily returns
+function series(ticker: string, seed: number) {
+  let s = seed;
+  return asset(ticker, Array.from({ length: 250 }, () => ((s = (s * 16807) % 2147483647) / 2147483647 - 0.5) * 0.04));
+}
+
+describe("risk decomposition against the engine's figures", () => {
+  const assets = [series("A", 3), series("B", 11)];
+  const report = analyzePortfolio(
+    {
+      portfolio: { assets, weights: [0.6, 0.7], benchmark: series("M", 29), mode: "exposure", cashRate: 0.05 },
+      conf: 0.99,
+      horizon: 1,
+      shock: -0.1,
+      mc: { paths: 500, seed: 1 },
+    },
+    {},
+  );
+
+  it("adds up to the reported volatility and parametric VaR, cash line included", () => {
+    expect(report.cashReturn).not.toBe(0);
+    expect(volatilityContributions(report.covMatrix, report.w, report.annFactor).sum).toBeCloseTo(report.volByMatrix, 12);
+    const pvar = parametricVaRContributions(report.covMatrix, report.means, report.w, 0.99, report.cashReturn);
+    expect(pvar.cash).toBeCloseTo(-report.cashReturn, 15);
+    expect(pvar.sum).toBeCloseTo(report.tails.parametric.var, 12);
+  });
+
+  it("scales the historical components to the reported historical VaR", () => {
+    const raw = historicalVaRContributions(assets.map((a) => a.returns), report.w, 0.99, report.cashReturn);
+    const scaled = scaleTo(raw, report.tails.historical.var);
+    expect(scaled.sum).toBeCloseTo(report.tails.historical.var, 12);
+    scaled.items.forEach((c, i) => expect(c.pct).toBeCloseTo(raw.items[i].pct, 12));
+  });
+
+  it("reports the parametric marginal VaR as the derivative of VaR in each weight", () => {
+    const at = (w: number[]) => parametricVaRContributions(report.covMatrix, report.means, w, 0.99, report.cashReturn).total;
+    const pvar = parametricVaRContributions(report.covMatrix, report.means, report.w, 0.99, report.cashReturn);
+    const h = 1e-6;
+    report.w.forEach((_, i) => {
+      const up = report.w.map((x, j) => (j === i ? x + h : x));
+      const down = report.w.map((x, j) => (j === i ? x - h : x));
+      expect(pvar.items[i].marginal).toBeCloseTo((at(up) - at(down)) / (2 * h), 8);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+// ---------- risk decomposition ---------- //
+// Euler allocation: for a risk measure that is homogeneous of degree one in the
+// weights, Σᵢ wᵢ·∂R/∂wᵢ = R, so component contributions add up to the total.
+
+import { zFromConf } from "./stats";
+
+export type Contribution = { marginal: number; component: number; pct: number };
+
+export type Decomposition = { total: number; items: Contribution[]; cash: number; sum: number }; // sum includes the cash line
+
+// `cash` is the contribution of the cash line (exposure mode), which has no weight sensitivity to allocate
+function finish(total: number, marginal: number[], w: number[], cash = 0): Decomposition {
+  const items = marginal.map((m, i) => {
+    const component = w[i] * m;
+    return { marginal: m, component, pct: total === 0 ? 0 : component / total };
+  });
+  return { total, items, cash, sum: items.reduce((s, c) => s + c.component, cash) };
+}
+
+// rescale the components so they add up to `total`, a figure estimated another way (the reported VaR)
+export function scaleTo(d: Decomposition, total: number): Decomposition {
+  if (d.total === 0) return d;
+  const k = total / d.total;
+  const items = d.items.map((c) => ({ ...c, marginal: c.marginal * k, component: c.component * k }));
+  return { total, items, cash: d.cash * k, sum: d.sum * k };
+}
+
+function covTimes(cov: number[][], w: number[]) {
+  return cov.map((row) => row.reduce((s, c, j) => s + c * w[j], 0));
+}
+
+// volatility, scaled by √annFactor (1 = daily)
+export function volatilityContributions(cov: number[][], w: number[], annFactor = 1) {
+  const sw = covTimes(cov, w);
+  const sigma = Math.sqrt(w.reduce((s, wi, i) => s + wi * sw[i], 0));
+  const k = Math.sqrt(annFactor);
+  return finish(sigma * k, sw.map((x) => (sigma === 0 ? 0 : (x / sigma) * k)), w);
+}
+
+// 1-day parametric VaR = z·σ − wᵀμ − cash, with `cash` the daily return of the cash line
+export function parametricVaRContributions(cov: number[][], mu: number[], w: number[], conf: number, cash = 0) {
+  const z = zFromConf(conf);
+  const sw = covTimes(cov, w);
+  const sigma = Math.sqrt(w.reduce((s, wi, i) => s + wi * sw[i], 0));
+  const total = z * sigma - w.reduce((s, wi, i) => s + wi * mu[i], 0) - cash;
+  return finish(total, sw.map((x, i) => (sigma === 0 ? 0 : (z * x) / sigma) - mu[i]), w, -cash);
+}
+
+// 1-day historical VaR: each asset's loss in the days around the VaR quantile of the portfolio.
+// Averaging a few neighbouring scenarios smooths the single-day estimate; the
+// total is the matching average portfolio loss, so the components add up exactly.
+export function historicalVaRContributions(assetReturns: number[][], w: number[], conf: number, cash = 0, neighbours = 2) {
+  const T = assetReturns[0]?.length ?? 0;
+  if (T === 0) return finish(0, w.map(() => 0), w);
+  const port = Array.from({ length: T }, (_, t) => assetReturns.reduce((s, r, i) => s + w[i] * r[t], cash));
+  const order = port.map((_, t) => t).sort((a, b) => port[a] - port[b]);
+  const at = Math.round((T - 1) * (1 - conf));
+  const picked = order.slice(Math.max(0, at - neighbours), Math.min(T, at + neighbours + 1));
+  const marginal = assetReturns.map((r) => -picked.reduce((s, t) => s + r[t], 0) / picked.length);
+  const total = -picked.reduce((s, t) => s + port[t], 0) / picked.length;
+  return finish(total, marginal, w, -cash);
+}
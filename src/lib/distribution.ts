@@ -0,0 +1,56 @@
+// ---------- return distribution: histogram, QQ plot, normality test ---------- //
+
+import { excessKurtosis, inverseNormalCdf, mean, normalPdf, skewness, std } from "./stats";
+
+export type HistogramBin = { x0: number; x1: number; mid: number; count: number; density: number; normal: number };
+
+export type QQPoint = { theoretical: number; sample: number };
+
+export type JarqueBera = { stat: number; pValue: number; skewness: number; excessKurtosis: number };
+
+// equal-width bins (√n of them, 10–60) with the fitted normal density at each midpoint
+export function histogram(returns: number[], bins = Math.min(60, Math.max(10, Math.round(Math.sqrt(returns.length))))): HistogramBin[] {
+  if (!returns.length) return [];
+  const lo = returns.reduce((a, b) => Math.min(a, b), Infinity);
+  const hi = returns.reduce((a, b) => Math.max(a, b), -Infinity);
+  const width = (hi - lo) / bins || 1e-9;
+  const counts = new Array(bins).fill(0);
+  for (const r of returns) counts[Math.min(bins - 1, Math.floor((r - lo) / width))]++;
+  const m = mean(returns);
+  const s = std(returns);
+  return counts.map((count, i) => {
+    const x0 = lo + i * width;
+    const mid = x0 + width / 2;
+    return {
+      x0,
+      x1: x0 + width,
+      mid,
+      count,
+      density: count / (returns.length * width),
+      normal: s > 0 ? normalPdf((mid - m) / s) / s : 0,
+    };
+  });
+}
+
+// standardized sample quantiles against normal quantiles at (i + ½)/n, thinned to at most `maxPoints`
+export function qqPoints(returns: number[], maxPoints = 400): QQPoint[] {
+  const n = returns.length;
+  const m = mean(returns);
+  const s = std(returns) || 1;
+  const sorted = Float64Array.from(returns).sort();
+  const step = Math.max(1, Math.ceil(n / maxPoints));
+  const out: QQPoint[] = [];
+  for (let i = 0; i < n; i += step) out.push({ theoretical: inverseNormalCdf((i + 0.5) / n), sample: (sorted[i] - m) / s });
+  // always keep the most extreme observation, it is the interesting one
+  if ((n - 1) % step !== 0) out.push({ theoretical: inverseNormalCdf((n - 0.5) / n), sample: (sorted[n - 1] - m) / s });
+  return out;
+}
+
+// JB = n/6 · (S² + K²/4), χ² with 2 degrees of freedom under normality
+export function jarqueBera(returns: number[]): JarqueBera {
+  const n = returns.length;
+  const s = skewness(returns);
+  const k = excessKurtosis(returns);
+  const stat = (n / 6) * (s * s + (k * k) / 4);
+  return { stat, pValue: Math.exp(-stat / 2), skewness: s, excessKurtosis: k };
+}
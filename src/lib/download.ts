@@ -0,0 +1,13 @@
+// ---------- client-side file downloads ---------- //
+
+export function downloadFile(filename: string, content: string, type = "text/plain") {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // some browsers start the download after click() returns; revoking right away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  analyzePortfolio,
+  beta,
+  cumprod,
+  maxDrawdown,
+  normalizeWeights,
+  portfolioReturns,
+  quadraticForm,
+  validatePortfolio,
+  type AnalysisConfig,
+  type Asset,
+} from "./engine";
+
+const mc = { paths: 500, seed: 7 };
+
+const asset = (ticker: string, returns: number[]): Asset => ({ ticker, returns });
+
+function config(assets: Asset[], weights: number[], benchmark: Asset): AnalysisConfig {
+  return { portfolio: { assets, weights, benchmark }, conf: 0.95, horizon: 1, shock: -0.1, mc };
+}
+
+describe("building blocks", () => {
+  it("normalizes weights to sum to one, leaving all-zero weights alone", () => {
+    expect(normalizeWeights([1, 3])).toEqual([0.25, 0.75]);
+    expect(normalizeWeights([0, 0])).toEqual([0, 0]);
+  });
+
+  it("compounds returns into a NAV path", () => {
+    const nav = cumprod([0.1, -0.5, 1]);
+    expect(nav[0]).toBeCloseTo(1.1);
+    expect(nav[1]).toBeCloseTo(0.55);
+    expect(nav[2]).toBeCloseTo(1.1);
+    expect(cumprod([])).toEqual([]);
+  });
+
+  it("finds the worst peak-to-trough fall and its recovery", () => {
+    const { maxDD, underwater, episode } = maxDrawdown([0.1, -0.5, 1, 0.01]);
+    expect(maxDD).toBeCloseTo(0.5);
+    expect(episode).toEqual({ peak: 0, trough: 1, recovery: 2 });
+    expect(underwater[0]).toBe(0);
+    expect(Object.is(underwater[3], -0)).toBe(false);
+  });
+
+  it("reports no drawdown for an empty or rising series", () => {
+    expect(maxDrawdown([])).toMatchObject({ nav: [], maxDD: 0, episode: null });
+    expect(maxDrawdown([0.01, 0.02]).maxDD).toBe(0);
+  });
+
+  it("aggregates asset returns with the weights plus a cash term", () => {
+    const r = portfolioReturns([asset("A", [0.01, 0.02]), asset("B", [-0.01, 0.04])], [0.5, 0.5], 0.001);
+    expect(r[0]).toBeCloseTo(0.001);
+    expect(r[1]).toBeCloseTo(0.031);
+    expect(portfolioReturns([], [])).toEqual([]);
+  });
+
+  it("evaluates wᵀMw", () => {
+    expect(quadraticForm([1, 2], [[2, 1], [1, 3]])).toBe(2 + 2 * 2 + 12);
+  });
+
+  it("gives beta 2 for a series that doubles the benchmark and 0 against a flat one", () => {
+    const bench = [0.01, -0.02, 0.03, 0];
+    expect(beta(bench.map((x) => 2 * x), bench)).toBeCloseTo(2);
+    expect(beta(bench, [0, 0, 0, 0])).toBe(0);
+  });
+});
+
+describe("validatePortfolio", () => {
+  const bench = asset("SPY", [0.01, 0.02, 0.03]);
+
+  it("rejects an empty portfolio", () => {
+    expect(() => validatePortfolio({ assets: [], weights: [], benchmark: bench })).toThrow(/no assets/);
+  });
+
+  it("rejects a weight count that does not match the assets", () => {
+    expect(() => validatePortfolio({ assets: [asset("A", [0, 0, 0])], weights: [0.5, 0.5], benchmark: bench })).toThrow(/Expected 1 weights/);
+  });
+
+  it("rejects fewer than two observations", () => {
+    expect(() => validatePortfolio({ assets: [asset("A", [0.01])], weights: [1], benchmark: asset("SPY", [0.01]) })).toThrow(/at least 2/);
+  });
+
+  it("rejects series of mismatched length", () => {
+    expect(() => validatePortfolio({ assets: [asset("A", [0.01, 0.02])], weights: [1], benchmark: bench })).toThrow(/A has 2 returns but SPY has 3/);
+  });
+});
+
+describe("analyzePortfolio", () => {
+  const bench = asset("SPY", [0.01, -0.02, 0.015, -0.005, 0.02, -0.01]);
+
+  it("matches hand-computed figures for a single asset", () => {
+    const a = [0.02, -0.01, 0.01, 0.005, 0.03, -0.02];
+    const r = analyzePortfolio(config([asset("A", a)], [1], bench));
+    const avg = (x: number[]) => x.reduce((s, v) => s + v, 0) / x.length;
+    const cov = (x: number[], y: number[]) => x.reduce((s, v, t) => s + (v - avg(x)) * (y[t] - avg(y)), 0) / (x.length - 1);
+    const sd = Math.sqrt(cov(a, a));
+    const b = cov(a, bench.returns) / cov(bench.returns, bench.returns);
+    expect(r.mean).toBeCloseTo(avg(a), 12);
+    expect(r.std).toBeCloseTo(sd, 12);
+    expect(r.volByMatrix).toBeCloseTo(sd * Math.sqrt(252), 10);
+    expect(r.beta).toBeCloseTo(b, 10);
+    expect(r.stressLoss).toBeCloseTo(-0.1 * b, 10);
+    expect(r.tails.parametric.var).toBeCloseTo(1.6448536 * sd - avg(a), 6);
+    // quantile at position (6 − 1) · 5% = 0.25, between the two worst days; only the worst is beyond it
+    expect(r.tails.historical.var).toBeCloseTo(0.02 - 0.25 * 0.01, 12);
+    expect(r.tails.historical.es).toBeCloseTo(0.02, 12);
+  });
+
+  it("handles a zero-variance asset without NaNs", () => {
+    const r = analyzePortfolio(config([asset("CASH", Array(6).fill(0)), asset("A", bench.returns)], [0.5, 0.5], bench));
+    expect(r.betas[0]).toBe(0);
+    expect(r.corrMatrix[0][1]).toBe(0);
+    for (const x of [r.volByMatrix, r.beta, r.tails.historical.var, r.tails.parametric.var, r.tails.cornishFisher.var, r.tails.monteCarlo.var]) {
+      expect(Number.isFinite(x)).toBe(true);
+    }
+  });
+
+  it("reports zero risk for a flat portfolio", () => {
+    const flat = asset("FLAT", Array(6).fill(0));
+    const r = analyzePortfolio(config([flat], [1], flat));
+    expect(r.volByMatrix).toBe(0);
+    expect(r.beta).toBe(0);
+    expect(r.maxDD).toBe(0);
+    expect(r.tails.parametric.var).toBe(0);
+    expect(r.skewness).toBe(0);
+  });
+
+  it("throws on mismatched lengths instead of returning NaNs", () => {
+    expect(() => analyzePortfolio(config([asset("A", [0.01, 0.02])], [1], bench))).toThrow(/mismatched|has 2 returns/);
+  });
+
+  it("refuses a horizon longer than the history instead of a NaN historical tail", () => {
+    const a = asset("A", [0.02, -0.01, 0.01, 0.005, 0.03, -0.02]);
+    expect(() => analyzePortfolio({ ...config([a], [1], bench), horizon: 10 })).toThrow(/Insufficient history for a 10-day horizon/);
+  });
+
+  it("reuses cached asset statistics across weight changes", () => {
+    const cache = {};
+    const assets = [asset("A", [0.02, -0.01, 0.01, 0.005, 0.03, -0.02]), asset("B", [0.001, 0.002, -0.001, 0, 0.003, 0.001])];
+    const first = analyzePortfolio(config(assets, [1, 0], bench), cache);
+    const second = analyzePortfolio(config(assets, [0.5, 0.5], bench), cache);
+    expect(second.covMatrix).toBe(first.covMatrix);
+    expect(second.volByMatrix).toBeCloseTo(Math.sqrt(quadraticForm([0.5, 0.5], first.covMatrix) * 252), 12);
+  });
+});
@@ -0,0 +1,315 @@
+// ---------- portfolio risk engine ---------- //
+// Framework-free: turns return series, weights and settings into every figure Step 4 shows.
+// Returns are daily simple returns; tail figures are positive loss fractions over `horizon` days.
+
+import { COV_ESTIMATORS, covarianceMatrix, estimateCovariance, type CovEstimator, type CovSettings } from "./covariance";
+import { monteCarloTail, simulateScenarios, type MonteCarloSettings, type MonteCarloTail, type Scenarios } from "./monteCarlo";
+import { horizonReturns, modifiedTail, parametricTail, tailFromSorted, type TailRisk } from "./risk";
+import { corr, excessKurtosis, mean, skewness, std } from "./stats";
+
+export type Asset = { ticker: string; returns: number[] };
+
+// "normalized" rescales the weights to sum to 1; "exposure" takes them as signed fractions of NAV,
+// with the remainder 1 − Σw held as cash (negative = financing)
+export type WeightMode = "normalized" | "exposure";
+
+export type Portfolio = {
+  assets: Asset[];
+  weights: number[];
+  benchmark: Asset;
+  mode?: WeightMode; // defaults to "normalized"
+  cashRate?: number; // annual rate earned (or paid) on the cash line, exposure mode only
+};
+
+export type ExposureSummary = { gross: number; net: number; long: number; short: number; cash: number; leverage: number };
+
+export type AnalysisConfig = {
+  portfolio: Portfolio;
+  conf: number;
+  horizon: number; // trading days
+  shock: number; // one-day benchmark move for the stress estimate
+  mc: MonteCarloSettings;
+  covariance?: CovSettings; // defaults to the sample estimator
+  annFactor?: number; // defaults to 252 trading days
+};
+
+export type CovarianceInfo = {
+  estimator: CovEstimator;
+  shrinkage: number | null; // Ledoit–Wolf only
+  minEigenvalue: number; // of the raw estimate (assets and benchmark)
+  repaired: boolean; // eigenvalues were clipped to make it positive definite
+};
+
+// weight-independent statistics, worth caching while only the weights change
+export type AssetStats = {
+  covMatrix: number[][]; // from the selected estimator
+  covInfo: CovarianceInfo;
+  covByEstimator: Array<{ estimator: CovEstimator; covMatrix: number[][] }>; // every estimator, for comparison
+  corrMatrix: number[][];
+  means: number[];
+  betas: number[]; // per asset vs benchmark
+  benchResponse: number[]; // per asset return per unit benchmark return (correlation × relative volatility, i.e. beta)
+  scenarios: Scenarios; // Monte Carlo draws of asset returns
+};
+
+export type DrawdownEpisode = { peak: number; trough: number; recovery: number | null };
+
+export type RiskReport = AssetStats & {
+  w: number[]; // effective weights, as fractions of NAV
+  exposure: ExposureSummary;
+  cashReturn: number; // daily return of the cash line (exposure mode), included in `returns`
+  returns: number[]; // portfolio daily returns
+  nav: number[];
+  mean: number;
+  std: number;
+  annFactor: number;
+  volAnn: number; // from the portfolio return series
+  volByMatrix: number; // from √(wᵀΣw) with the selected estimator
+  beta: number;
+  skewness: number;
+  excessKurtosis: number;
+  maxDD: number;
+  underwater: number[]; // drawdown from the running peak, ≤ 0
+  drawdown: DrawdownEpisode | null; // the maximum drawdown episode
+  tails: { historical: TailRisk; parametric: TailRisk; cornishFisher: TailRisk; monteCarlo: MonteCarloTail };
+  benchSensitivity: number;
+  stressLoss: number;
+  estimatorComparison: Array<{ estimator: CovEstimator; volAnn: number; var: number }>; // parametric VaR at conf/horizon
+};
+
+// the part of a report the UI reads. The Monte Carlo draws (up to paths × assets) and the matrix of
+// every estimator stay in the engine cache instead of being copied to the main thread on each run.
+export type RiskView = Omit<RiskReport, "scenarios" | "covByEstimator">;
+
+export function riskView(report: RiskReport): RiskView {
+  const { scenarios: _scenarios, covByEstimator: _covByEstimator, ...view } = report;
+  return view;
+}
+
+// intermediates a long-lived caller (the analytics worker) keeps between calls; the caller resets it when the data changes
+export type EngineCache = {
+  stats?: AssetStats;
+  sorted?: { key: string; values: Float64Array }; // sorted horizon returns behind the historical tail
+};
+
+export type ProgressFn = (fraction: number, stage: string) => void;
+
+export const ANN_FACTOR = 252;
+
+export const SAMPLE_COVARIANCE: CovSettings = { estimator: "sample", lambda: 0.94 };
+
+export { covarianceMatrix };
+
+// ---------- building blocks ---------- //
+export function normalizeWeights(weights: number[]) {
+  const s = weights.reduce((a, b) => a + b, 0);
+  return s === 0 ? weights : weights.map((x) => x / s);
+}
+
+export function effectiveWeights(weights: number[], mode: WeightMode = "normalized") {
+  return mode === "exposure" ? weights : normalizeWeights(weights);
+}
+
+// leverage is gross exposure in multiples of NAV
+export function exposureSummary(w: number[]): ExposureSummary {
+  const long = w.reduce((s, x) => s + Math.max(0, x), 0);
+  const short = w.reduce((s, x) => s + Math.min(0, x), 0);
+  return { gross: long - short, net: long + short, long, short, cash: 1 - long - short, leverage: long - short };
+}
+
+export function cumprod(arr: number[]) {
+  const out: number[] = [];
+  let acc = 1;
+  for (const r of arr) {
+    acc = acc * (1 + r);
+    out.push(acc);
+  }
+  return out;
+}
+
+// worst peak-to-trough fall; indices refer to `nav`, recovery is null while still under water
+export function maxDrawdown(returns: number[]) {
+  const nav = cumprod(returns);
+  const underwater: number[] = [];
+  let peak = -Infinity;
+  let peakAt = 0;
+  let maxDD = 0;
+  let episode: DrawdownEpisode | null = null;
+  for (let t = 0; t < nav.length; t++) {
+    if (nav[t] > peak) {
+      peak = nav[t];
+      peakAt = t;
+    }
+    const dd = (peak - nav[t]) / peak;
+    underwater.push(dd === 0 ? 0 : -dd);
+    if (dd > maxDD) {
+      maxDD = dd;
+      episode = { peak: peakAt, trough: t, recovery: null };
+    }
+  }
+  if (episode) {
+    const { peak: p, trough } = episode;
+    const k = nav.findIndex((v, t) => t > trough && v >= nav[p]);
+    episode.recovery = k < 0 ? null : k;
+  }
+  return { nav, maxDD, underwater, episode };
+}
+
+export function quadraticForm(w: number[], M: number[][]) {
+  let v = 0;
+  for (let i = 0; i < w.length; i++) {
+    for (let j = 0; j < w.length; j++) v += w[i] * w[j] * M[i][j];
+  }
+  return v;
+}
+
+// `cash` is a constant daily return added on top (the cash line's contribution)
+export function portfolioReturns(assets: Asset[], w: number[], cash = 0) {
+  const n = assets.length ? assets[0].returns.length : 0;
+  const out: number[] = new Array(n).fill(0);
+  for (let t = 0; t < n; t++) {
+    let v = cash;
+    for (let i = 0; i < assets.length; i++) v += w[i] * assets[i].returns[t];
+    out[t] = v;
+  }
+  return out;
+}
+
+// constant series get 0 off the diagonal, like corr()
+export function correlationFromCovariance(cov: number[][]) {
+  const sd = cov.map((row, i) => Math.sqrt(row[i]));
+  return cov.map((row, i) => row.map((c, j) => (sd[i] * sd[j] === 0 ? 0 : c / (sd[i] * sd[j]))));
+}
+
+export function correlationMatrix(series: number[][]) {
+  return correlationFromCovariance(covarianceMatrix(series));
+}
+
+// a flat benchmark has no beta to speak of: report 0 rather than dividing by zero
+export function beta(returns: number[], bench: number[]) {
+  const [[, c], [, v]] = covarianceMatrix([returns, bench]);
+  return v === 0 ? 0 : c / v;
+}
+
+export function benchmarkResponse(returns: number[], bench: number[]) {
+  const benchStd = std(bench) || 1e-9;
+  const assetStd = std(returns) || 1e-9;
+  return (corr(returns, bench) * assetStd) / benchStd; // linear propagation
+}
+
+// throws on inputs the statistics are undefined for, so callers get a message instead of NaNs
+export function validatePortfolio(p: Portfolio) {
+  if (!p.assets.length) throw new Error("Portfolio has no assets.");
+  if (p.weights.length !== p.assets.length) {
+    throw new Error(`Expected ${p.assets.length} weights, got ${p.weights.length}.`);
+  }
+  const n = p.benchmark.returns.length;
+  if (n < 2) throw new Error("Need at least 2 return observations.");
+  for (const a of p.assets) {
+    if (a.returns.length !== n) {
+      throw new Error(`${a.ticker} has ${a.returns.length} returns but ${p.benchmark.ticker} has ${n}.`);
+    }
+  }
+}
+
+// ---------- entry points ---------- //
+// the benchmark is estimated jointly with the assets so betas and stress propagation follow the estimator
+export function analyzeAssets(
+  assets: Asset[],
+  benchmark: Asset,
+  mc: MonteCarloSettings,
+  covariance: CovSettings = SAMPLE_COVARIANCE,
+  onProgress?: ProgressFn,
+): AssetStats {
+  const series = [...assets.map((a) => a.returns), benchmark.returns];
+  const n = assets.length;
+  const drop = (M: number[][]) => M.slice(0, n).map((row) => row.slice(0, n));
+  onProgress?.(0, "Covariance");
+  const est = estimateCovariance(series, covariance);
+  const covMatrix = drop(est.matrix);
+  onProgress?.(0.2, "Estimator comparison");
+  const covByEstimator = COV_ESTIMATORS.map(({ value }) => ({
+    estimator: value,
+    covMatrix: value === covariance.estimator ? covMatrix : drop(estimateCovariance(series, { ...covariance, estimator: value }).matrix),
+  }));
+  const means = assets.map((a) => mean(a.returns));
+  onProgress?.(0.3, "Betas");
+  const varB = est.matrix[n][n];
+  const betas = assets.map((_, i) => (varB === 0 ? 0 : est.matrix[i][n] / varB));
+  onProgress?.(0.4, "Monte Carlo scenarios");
+  return {
+    covMatrix,
+    covInfo: { estimator: covariance.estimator, shrinkage: est.shrinkage, minEigenvalue: est.minEigenvalue, repaired: est.repaired },
+    covByEstimator,
+    corrMatrix: correlationFromCovariance(covMatrix),
+    means,
+    betas,
+    benchResponse: betas,
+    scenarios: simulateScenarios(means, covMatrix, mc),
+  };
+}
+
+// pass the same `cache` on every call to reuse asset statistics across weight changes
+// and the sorted return history across confidence changes
+export function analyzePortfolio(config: AnalysisConfig, cache: EngineCache = {}, onProgress?: ProgressFn): RiskReport {
+  const { portfolio, conf, horizon, shock, mc, covariance } = config;
+  validatePortfolio(portfolio);
+  const annFactor = config.annFactor ?? ANN_FACTOR;
+  if (!cache.stats) cache.stats = analyzeAssets(portfolio.assets, portfolio.benchmark, mc, covariance, (f, stage) => onProgress?.(f * 0.8, stage));
+  const s = cache.stats;
+  const w = effectiveWeights(portfolio.weights, portfolio.mode);
+  const exposure = exposureSummary(w);
+  const cashReturn = portfolio.mode === "exposure" ? (exposure.cash * (portfolio.cashRate ?? 0)) / annFactor : 0;
+  onProgress?.(0.8, "Portfolio risk");
+
+  const returns = portfolioReturns(portfolio.assets, w, cashReturn);
+  // no full h-day window means no historical tail at all
+  if (returns.length < horizon) throw new Error(`Insufficient history for a ${horizon}-day horizon: only ${returns.length} observations.`);
+  const pMean = mean(returns);
+  const pStd = std(returns);
+  const pSkew = skewness(returns);
+  const pKurt = excessKurtosis(returns);
+  const { nav, maxDD, underwater, episode } = maxDrawdown(returns);
+
+  // parametric figures use the estimated covariance, so they move with the estimator
+  const sigma = Math.sqrt(Math.max(quadraticForm(w, s.covMatrix), 0));
+
+  const sortKey = `${horizon}|${cashReturn}|${w.join(",")}`;
+  if (cache.sorted?.key !== sortKey) {
+    cache.sorted = { key: sortKey, values: Float64Array.from(horizonReturns(returns, horizon)).sort() };
+  }
+
+  const benchSensitivity = s.benchResponse.reduce((acc, r, i) => acc + w[i] * r, 0);
+
+  return {
+    ...s,
+    w,
+    exposure,
+    cashReturn,
+    returns,
+    nav,
+    mean: pMean,
+    std: pStd,
+    annFactor,
+    volAnn: pStd * Math.sqrt(annFactor),
+    volByMatrix: sigma * Math.sqrt(annFactor),
+    beta: s.betas.reduce((acc, b, i) => acc + w[i] * b, 0),
+    skewness: pSkew,
+    excessKurtosis: pKurt,
+    maxDD,
+    underwater,
+    drawdown: episode,
+    tails: {
+      historical: tailFromSorted(cache.sorted.values, conf),
+      parametric: parametricTail(pMean, sigma, conf, horizon),
+      cornishFisher: modifiedTail(pMean, sigma, pSkew, pKurt, conf, horizon),
+      monteCarlo: monteCarloTail(s.scenarios, w, conf, horizon, cashReturn),
+    },
+    benchSensitivity,
+    stressLoss: shock * benchSensitivity,
+    estimatorComparison: s.covByEstimator.map(({ estimator, covMatrix }) => {
+      const sd = Math.sqrt(Math.max(quadraticForm(w, covMatrix), 0));
+      return { estimator, volAnn: sd * Math.sqrt(annFactor), var: parametricTail(pMean, sd, conf, horizon).var };
+    }),
+  };
+}
@@ -0,0 +1,16 @@
+// ---------- display formatting ---------- //
+
+export function toPct(x: number, digits = 2) {
+  return `${(x * 100).toFixed(digits)}%`;
+}
+
+const money = new Intl.NumberFormat(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+
+export function toMoney(x: number) {
+  return money.format(x);
+}
+
+// confidence levels without trailing zeros: 0.95 -> "95%", 0.975 -> "97.5%"
+export function toConf(conf: number) {
+  return `${+(conf * 100).toFixed(2)}%`;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { parseDataset } from "./importData";
+
+const reasons = (d: { rejected: Array<{ reason: string }> }) => d.rejected.map((r) => r.reason).join(" | ");
+
+describe("parseDataset: layouts", () => {
+  it("reads long CSV returns", () => {
+    const csv = ["date,ticker,return", ...["01", "02", "03"].flatMap((d, i) => [`2024-01-${d},AAA,${0.01 * (i + 1)}`, `2024-01-${d},SPY,${-0.01 * i}`])].join("\n");
+    const d = parseDataset(csv);
+    expect(d.kind).toBe("returns");
+    expect(d.dates).toEqual(["2024-01-01", "2024-01-02", "2024-01-03"]);
+    expect(d.series.find((s) => s.ticker === "AAA")!.returns).toEqual([0.01, 0.02, 0.03]);
+    expect(d.benchmark).toBe("SPY");
+  });
+
+  it("reads wide CSV prices into returns", () => {
+    const csv = "Date;AAA;BBB\n2024-01-02;100;50\n2024-01-03;110;50\n2024-01-04;99;55\n2024-01-05;99;55";
+    const d = parseDataset(csv);
+    expect(d.kind).toBe("prices");
+    expect(d.dates).toEqual(["2024-01-03", "2024-01-04", "2024-01-05"]);
+    const aaa = d.series[0].returns;
+    expect(aaa[0]).toBeCloseTo(0.1, 12);
+    expect(aaa[1]).toBeCloseTo(-0.1, 12);
+    expect(aaa[2]).toBe(0);
+  });
+
+  it("reads JSON keyed by ticker, as date maps and as rows", () => {
+    const json = JSON.stringify({
+      AAA: { "2024-01-02": 10, "2024-01-03": 11, "2024-01-04": 12, "2024-01-05": 12 },
+      SPY: [
+        { date: "2024-01-02", close: 400 },
+        { date: "2024-01-03", close: 404 },
+        { date: "2024-01-04", close: 400 },
+        { date: "2024-01-05", close: 400 },
+      ],
+    });
+    const d = parseDataset(json);
+    expect(d.series.map((s) => s.ticker)).toEqual(["AAA", "SPY"]);
+    expect(d.series[1].returns[0]).toBeCloseTo(0.01, 12);
+  });
+
+  it("takes the single numeric field of a row under a ticker key", () => {
+    const rows = (v: number[]) => v.map((px, i) => ({ date: `2024-01-0${i + 2}`, px }));
+    const d = parseDataset(JSON.stringify({ AAA: rows([10, 11, 12, 13]), SPY: rows([400, 404, 400, 410]) }));
+    expect(d.series.map((s) => s.ticker)).toEqual(["AAA", "SPY"]);
+    expect(d.rejected).toEqual([]);
+  });
+
+  it("rejects a row under a ticker key with no value column", () => {
+    const row = (i: number) => ({ date: `2024-01-0${i + 2}`, px: 10 + i, volume: 1000 });
+    const ok = (i: number) => ({ date: `2024-01-0${i + 2}`, close: 10 + i });
+    const d = parseDataset(JSON.stringify({ AAA: [0, 1, 2, 3].map(ok), BBB: [0, 1, 2, 3].map(ok), CCC: [row(0)] }));
+    expect(d.series.map((s) => s.ticker)).toEqual(["AAA", "BBB"]);
+    expect(reasons(d)).toContain("no value column");
+  });
+});
+
+describe("parseDataset: prices vs returns", () => {
+  it("keeps a price file with one 0 cell as prices and rejects that cell", () => {
+    const csv = "date,AAA,SPY\n2024-01-02,100,400\n2024-01-03,0,404\n2024-01-04,102,408\n2024-01-05,103,412\n2024-01-08,104,416";
+    const d = parseDataset(csv);
+    expect(d.kind).toBe("prices");
+    expect(d.dates).not.toContain("2024-01-03");
+    expect(reasons(d)).toContain("price must be positive");
+    for (const s of d.series) for (const r of s.returns) expect(Math.abs(r)).toBeLessThan(0.05);
+  });
+
+  it("reads negative values and percentages as returns", () => {
+    const d = parseDataset("date,AAA,SPY\n2024-01-02,1%,-0.5%\n2024-01-03,-2%,0.3%\n2024-01-04,0.4%,0.1%");
+    expect(d.kind).toBe("returns");
+    expect(d.series[0].returns).toEqual([0.01, -0.02, 0.004]);
+  });
+
+  it("refuses a file mixing prices and returns", () => {
+    expect(() => parseDataset("date,AAA,SPY\n2024-01-02,100,0.01\n2024-01-03,101,-0.02\n2024-01-04,102,0.01")).toThrow(/look like prices/);
+  });
+
+  it("drops a price series with no positive price instead of returning NaN", () => {
+    const csv = "date,AAA,BBB,SPY\n2024-01-02,100,0,400\n2024-01-03,101,,404\n2024-01-04,102,,408\n2024-01-05,103,,412\n2024-01-08,104,,416";
+    const d = parseDataset(csv, { kind: "prices" });
+    expect(d.series.map((s) => s.ticker)).toEqual(["AAA", "SPY"]);
+    expect(reasons(d)).toContain("series dropped");
+    for (const s of d.series) expect(s.returns.every(Number.isFinite)).toBe(true);
+  });
+});
+
+describe("parseDataset: gaps and bad rows", () => {
+  it("carries a blank price forward and drops a date with an unreadable cell", () => {
+    const csv = "date,AAA,SPY\n2024-01-02,100,400\n2024-01-03,,404\n2024-01-04,n/a,408\n2024-01-05,110,412\n2024-01-08,111,416";
+    const d = parseDataset(csv);
+    expect(d.filled).toBe(1);
+    expect(d.dates).toEqual(["2024-01-03", "2024-01-05", "2024-01-08"]);
+    expect(d.series[0].returns[0]).toBe(0);
+    expect(d.series[0].returns[1]).toBeCloseTo(0.1, 12);
+    expect(reasons(d)).toContain("2024-01-04 dropped");
+  });
+
+  it("drops return dates not shared by every series", () => {
+    const d = parseDataset("date,AAA,SPY\n2024-01-02,0.01,0.02\n2024-01-03,,0.01\n2024-01-04,0.02,-0.01\n2024-01-05,0.01,0");
+    expect(d.dates).toEqual(["2024-01-02", "2024-01-04", "2024-01-05"]);
+    expect(d.dropped).toBe(1);
+  });
+
+  it("rejects rows with an unrecognised date and keeps the rest", () => {
+    const d = parseDataset("date,AAA,SPY\nyesterday,1,2\n2024-01-02,100,400\n2024-01-03,101,404\n2024-01-04,102,408\n2024-01-05,103,412");
+    expect(d.rejected).toEqual([{ where: "line 2", reason: 'unrecognised date "yesterday"' }]);
+    expect(d.dates).toHaveLength(3);
+  });
+
+  it("throws when nothing usable is left", () => {
+    expect(() => parseDataset("")).toThrow();
+    expect(() => parseDataset("date,AAA\n2024-01-02,100\n2024-01-03,101\n2024-01-04,102")).toThrow(/two series/);
+  });
+});
@@ -0,0 +1,339 @@
+// ---------- CSV / JSON price & return import ---------- //
+// Accepts dated prices or returns per ticker, either "wide" (one column per
+// ticker) or "long" (date, ticker, value rows), and turns them into aligned
+// daily return series the wizard can analyse.
+
+export type ValueKind = "prices" | "returns";
+
+export type ImportedSeries = { ticker: string; returns: number[] };
+
+export type RejectedRow = { where: string; reason: string };
+
+export type ImportedDataset = {
+  dates: string[]; // date of each aligned return observation
+  kind: ValueKind;
+  series: ImportedSeries[];
+  benchmark: string;
+  rejected: RejectedRow[];
+  filled: number; // missing (blank) price cells carried forward from the previous day
+  dropped: number; // dates discarded because not every series had a usable value
+};
+
+export type ImportOptions = { kind?: ValueKind | "auto"; benchmark?: string };
+
+type Observation = { date: string; ticker: string; value: number; pct: boolean };
+
+// `badDates`: dates with a cell that was present but unusable; they are dropped for every series
+// rather than filled, so a typo never turns into a made-up price
+type Collected = { obs: Observation[]; rejected: RejectedRow[]; badDates: Set<string> };
+
+const DATE_KEYS = ["date", "time", "timestamp", "day", "period"];
+const TICKER_KEYS = ["ticker", "symbol", "asset", "name"];
+const VALUE_KEYS = ["value", "price", "close", "adj close", "adj_close", "adjclose", "return", "ret"];
+
+// ---------- small helpers ---------- //
+function pad(n: number) {
+  return n < 10 ? `0${n}` : `${n}`;
+}
+
+function normalizeDate(raw: unknown): string | null {
+  if (typeof raw === "number" && Number.isFinite(raw)) {
+    const d = new Date(raw);
+    return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+  }
+  if (typeof raw !== "string") return null;
+  const s = raw.trim();
+  if (!s) return null;
+  const iso = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/.exec(s);
+  if (iso) {
+    const m = +iso[2];
+    const d = +iso[3];
+    if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+    return `${iso[1]}-${pad(m)}-${pad(d)}`;
+  }
+  const t = Date.parse(s);
+  if (isNaN(t)) return null;
+  const d = new Date(t);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function parseValue(raw: unknown): { value: number; pct: boolean } | null {
+  if (typeof raw === "number") return Number.isFinite(raw) ? { value: raw, pct: false } : null;
+  if (typeof raw !== "string") return null;
+  let s = raw.trim().replace(/[$€£\s]/g, "");
+  if (!s) return null;
+  const pct = s.endsWith("%");
+  if (pct) s = s.slice(0, -1);
+  const v = Number(s);
+  if (!Number.isFinite(v)) return null;
+  return { value: pct ? v / 100 : v, pct };
+}
+
+function findKey(keys: string[], candidates: string[]) {
+  return keys.find((k) => candidates.includes(k.trim().toLowerCase()));
+}
+
+function splitCsvLine(line: string, delim: string) {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delim) {
+      out.push(cur);
+      cur = "";
+    } else cur += ch;
+  }
+  out.push(cur);
+  return out.map((c) => c.trim());
+}
+
+function detectDelimiter(header: string) {
+  const counts = [",", ";", "\t"].map((d) => ({ d, n: header.split(d).length }));
+  counts.sort((a, b) => b.n - a.n);
+  return counts[0].d;
+}
+
+// ---------- readers ---------- //
+function readCsv(text: string): Collected {
+  const lines = text.split(/\r?\n/);
+  const headerIdx = lines.findIndex((l) => l.trim() !== "");
+  if (headerIdx < 0) throw new Error("The file is empty.");
+  const delim = detectDelimiter(lines[headerIdx]);
+  const header = splitCsvLine(lines[headerIdx], delim);
+  const dateCol = header.findIndex((h) => DATE_KEYS.includes(h.toLowerCase()));
+  const dIdx = dateCol >= 0 ? dateCol : 0;
+  const tickerCol = header.findIndex((h) => TICKER_KEYS.includes(h.toLowerCase()));
+  const valueCol = header.findIndex((h) => VALUE_KEYS.includes(h.toLowerCase()));
+  const long = tickerCol >= 0 && valueCol >= 0;
+
+  const obs: Observation[] = [];
+  const rejected: RejectedRow[] = [];
+  const badDates = new Set<string>();
+  for (let li = headerIdx + 1; li < lines.length; li++) {
+    if (lines[li].trim() === "") continue;
+    const where = `line ${li + 1}`;
+    const cells = splitCsvLine(lines[li], delim);
+    const date = normalizeDate(cells[dIdx]);
+    if (!date) {
+      rejected.push({ where, reason: `unrecognised date "${cells[dIdx] ?? ""}"` });
+      continue;
+    }
+    if (long) {
+      const ticker = cells[tickerCol];
+      const v = parseValue(cells[valueCol]);
+      if (!ticker) rejected.push({ where, reason: "missing ticker" });
+      else if (!v) {
+        rejected.push({ where, reason: `non-numeric value "${cells[valueCol] ?? ""}", ${date} dropped` });
+        badDates.add(date);
+      } else obs.push({ date, ticker, ...v });
+      continue;
+    }
+    const bad: string[] = [];
+    header.forEach((ticker, c) => {
+      if (c === dIdx || !ticker) return;
+      const raw = cells[c] ?? "";
+      if (raw === "") return; // missing day, handled during alignment
+      const v = parseValue(raw);
+      if (v) obs.push({ date, ticker, ...v });
+      else bad.push(ticker);
+    });
+    if (bad.length) {
+      rejected.push({ where, reason: `non-numeric value for ${bad.join(", ")}, ${date} dropped` });
+      badDates.add(date);
+    }
+  }
+  return { obs, rejected, badDates };
+}
+
+function readJson(text: string): Collected {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The JSON could not be parsed.");
+  }
+  const obs: Observation[] = [];
+  const rejected: RejectedRow[] = [];
+  const badDates = new Set<string>();
+
+  const pushRow = (row: unknown, where: string, fixedTicker?: string) => {
+    if (!row || typeof row !== "object") {
+      rejected.push({ where, reason: "not an object" });
+      return;
+    }
+    const rec = row as Record<string, unknown>;
+    const keys = Object.keys(rec);
+    const dateKey = findKey(keys, DATE_KEYS);
+    const date = dateKey ? normalizeDate(rec[dateKey]) : null;
+    if (!date) {
+      rejected.push({ where, reason: "missing or unrecognised date" });
+      return;
+    }
+    const tickerKey = findKey(keys, TICKER_KEYS);
+    // under a ticker key the row holds one series, so an unnamed value column is its only numeric field
+    const numeric = keys.filter((k) => k !== dateKey && k !== tickerKey && parseValue(rec[k]));
+    const valueKey = findKey(keys, VALUE_KEYS) ?? (fixedTicker && numeric.length === 1 ? numeric[0] : undefined);
+    const ticker = fixedTicker ?? (tickerKey ? String(rec[tickerKey]) : undefined);
+    if (fixedTicker && !valueKey) {
+      rejected.push({ where, reason: `no value column (expected ${VALUE_KEYS.slice(0, 4).join(", ")} or a single numeric field)` });
+      return;
+    }
+    if (ticker !== undefined && valueKey) {
+      const v = parseValue(rec[valueKey]);
+      if (v) obs.push({ date, ticker, ...v });
+      else {
+        rejected.push({ where, reason: `non-numeric value for ${ticker}, ${date} dropped` });
+        badDates.add(date);
+      }
+      return;
+    }
+    const bad: string[] = [];
+    for (const k of keys) {
+      if (k === dateKey || rec[k] === null || rec[k] === "") continue;
+      const v = parseValue(rec[k]);
+      if (v) obs.push({ date, ticker: k, ...v });
+      else bad.push(k);
+    }
+    if (bad.length) {
+      rejected.push({ where, reason: `non-numeric value for ${bad.join(", ")}, ${date} dropped` });
+      badDates.add(date);
+    }
+  };
+
+  if (Array.isArray(data)) {
+    data.forEach((row, i) => pushRow(row, `row ${i + 1}`));
+  } else if (data && typeof data === "object") {
+    // { TICKER: [{ date, value }, ...] } or { TICKER: { "2024-01-02": 101.3, ... } }
+    for (const [ticker, series] of Object.entries(data as Record<string, unknown>)) {
+      if (Array.isArray(series)) {
+        series.forEach((row, i) => pushRow(row, `${ticker} #${i + 1}`, ticker));
+      } else if (series && typeof series === "object") {
+        for (const [rawDate, rawValue] of Object.entries(series as Record<string, unknown>)) {
+          const where = `${ticker} @ ${rawDate}`;
+          const date = normalizeDate(rawDate);
+          const v = parseValue(rawValue);
+          if (!date) rejected.push({ where, reason: "unrecognised date" });
+          else if (!v) {
+            rejected.push({ where, reason: `non-numeric value, ${date} dropped` });
+            badDates.add(date);
+          } else obs.push({ date, ticker, ...v });
+        }
+      } else {
+        rejected.push({ where: ticker, reason: "expected an array or a date → value map" });
+      }
+    }
+  } else {
+    throw new Error("Expected a JSON array of rows or an object keyed by ticker.");
+  }
+  return { obs, rejected, badDates };
+}
+
+// ---------- detection & alignment ---------- //
+// a typical daily return is well below 50%; typical prices are well above it. Each ticker is judged on
+// its median, so a stray 0 or negative price stays a price (and is rejected during alignment)
+function tickerKind(values: Observation[]): ValueKind {
+  if (values.some((o) => o.pct)) return "returns";
+  const abs = values.map((o) => Math.abs(o.value)).sort((a, b) => a - b);
+  return abs[Math.floor(abs.length / 2)] > 0.5 ? "prices" : "returns";
+}
+
+function detectKind(obs: Observation[]): ValueKind {
+  const byTicker = new Map<string, Observation[]>();
+  for (const o of obs) {
+    const list = byTicker.get(o.ticker);
+    if (list) list.push(o);
+    else byTicker.set(o.ticker, [o]);
+  }
+  const kinds = [...byTicker].map(([ticker, values]) => ({ ticker, kind: tickerKind(values) }));
+  const prices = kinds.filter((k) => k.kind === "prices").map((k) => k.ticker);
+  const returns = kinds.filter((k) => k.kind === "returns").map((k) => k.ticker);
+  if (prices.length && returns.length) {
+    throw new Error(`${prices.join(", ")} look like prices but ${returns.join(", ")} look like returns. Choose the value type explicitly.`);
+  }
+  return prices.length ? "prices" : "returns";
+}
+
+function align(obs: Observation[], kind: ValueKind, rejected: RejectedRow[], badDates: Set<string>) {
+  const byTicker = new Map<string, Map<string, number>>();
+  for (const o of obs) {
+    let m = byTicker.get(o.ticker);
+    if (!m) byTicker.set(o.ticker, (m = new Map()));
+    if (m.has(o.date)) rejected.push({ where: `${o.ticker} @ ${o.date}`, reason: "duplicate date, later value kept" });
+    if (kind === "prices" && o.value <= 0) {
+      rejected.push({ where: `${o.ticker} @ ${o.date}`, reason: "price must be positive, date dropped" });
+      badDates.add(o.date);
+      continue;
+    }
+    m.set(o.date, o.value);
+  }
+  // a series left without a single usable value cannot be aligned (nor forward-filled)
+  for (const [t, m] of byTicker) {
+    for (const d of badDates) m.delete(d);
+    if (m.size > 0) continue;
+    rejected.push({ where: t, reason: `no usable ${kind === "prices" ? "positive prices" : "values"}, series dropped` });
+    byTicker.delete(t);
+  }
+  const tickers = [...byTicker.keys()];
+  const seen = [...new Set([...obs.filter((o) => byTicker.has(o.ticker)).map((o) => o.date), ...badDates])];
+  const allDates = seen.filter((d) => !badDates.has(d)).sort();
+  const unusable = seen.length - allDates.length;
+
+  if (kind === "returns") {
+    const dates = allDates.filter((d) => tickers.every((t) => byTicker.get(t)!.has(d)));
+    const series = tickers.map((t) => ({ ticker: t, returns: dates.map((d) => byTicker.get(t)!.get(d)!) }));
+    return { dates, series, filled: 0, dropped: unusable + allDates.length - dates.length };
+  }
+
+  // prices: start once every series has a first price, then carry gaps forward (from `start` on
+  // every series has a price to carry)
+  const start = tickers.reduce((s, t) => {
+    const first = allDates.find((d) => byTicker.get(t)!.has(d)) ?? "";
+    return first > s ? first : s;
+  }, "");
+  const priceDates = allDates.filter((d) => d >= start);
+  let filled = 0;
+  const series = tickers.map((t) => {
+    const m = byTicker.get(t)!;
+    const prices: number[] = [];
+    for (const d of priceDates) {
+      if (m.has(d)) prices.push(m.get(d)!);
+      else {
+        prices.push(prices[prices.length - 1]);
+        filled++;
+      }
+    }
+    const returns: number[] = [];
+    for (let i = 1; i < prices.length; i++) returns.push(prices[i] / prices[i - 1] - 1);
+    return { ticker: t, returns };
+  });
+  return { dates: priceDates.slice(1), series, filled, dropped: unusable + allDates.length - priceDates.length };
+}
+
+// ---------- entry point ---------- //
+export function parseDataset(text: string, opts: ImportOptions = {}): ImportedDataset {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Paste or upload a CSV or JSON file first.");
+  const { obs, rejected, badDates } = trimmed.startsWith("{") || trimmed.startsWith("[") ? readJson(trimmed) : readCsv(trimmed);
+  if (obs.length === 0) throw new Error("No usable values were found.");
+
+  const kind = !opts.kind || opts.kind === "auto" ? detectKind(obs) : opts.kind;
+  const { dates, series, filled, dropped } = align(obs, kind, rejected, badDates);
+  if (series.length < 2) throw new Error("At least two series are needed: one or more assets plus a benchmark.");
+  if (dates.length < 3) throw new Error("Fewer than three aligned dates are shared by every series.");
+
+  const tickers = series.map((s) => s.ticker);
+  const benchmark =
+    opts.benchmark && tickers.includes(opts.benchmark)
+      ? opts.benchmark
+      : tickers.find((t) => t.toUpperCase() === "SPY") ?? tickers[tickers.length - 1];
+
+  return { dates, kind, series, benchmark, rejected, filled, dropped };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { analyzePortfolio, type Asset } from "./engine";
+import { estimateLimitMetrics } from "./limits";
+
+function series(ticker: string, seed: number): Asset {
+  let s = seed;
+  return { ticker, returns: Array.from({ length: 250 }, () => ((s = (s * 16807) % 2147483647) / 2147483647 - 0.5) * 0.04) };
+}
+
+describe("estimateLimitMetrics", () => {
+  it("matches the engine in exposure mode, cash line included", () => {
+    const assets = [series("A", 5), series("B", 17)];
+    const w = [0.4, -0.2];
+    const report = analyzePortfolio(
+      {
+        portfolio: { assets, weights: w, benchmark: series("M", 31), mode: "exposure", cashRate: 0.04 },
+        conf: 0.95,
+        horizon: 10,
+        shock: -0.1,
+        mc: { paths: 500, seed: 1 },
+      },
+      {},
+    );
+    const m = estimateLimitMetrics(assets, w, report, report.annFactor, 0.95, 10, "exposure", 0.04);
+    expect(m.var).toBeCloseTo(report.tails.parametric.var, 12);
+    expect(m.vol).toBeCloseTo(report.volByMatrix, 12);
+    expect(m.beta).toBeCloseTo(report.beta, 12);
+    expect(m.maxDD).toBeCloseTo(report.maxDD, 12);
+  });
+});
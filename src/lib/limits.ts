@@ -0,0 +1,109 @@
+// ---------- risk limits ---------- //
+// A desk-style limit set checked against the Step 4 figures. Each active limit gets a utilisation
+// (100% = at the limit) and a traffic-light status: red past the limit, amber from `warnAt`.
+
+import { exposureSummary, maxDrawdown, portfolioReturns, quadraticForm, type Asset, type WeightMode } from "./engine";
+import { parametricTail } from "./risk";
+
+export type RiskLimits = {
+  maxVaR: number | null; // loss fraction, at the configured method, confidence and horizon; null = no limit
+  maxVol: number | null; // annualized
+  minBeta: number | null;
+  maxBeta: number | null;
+  maxDrawdown: number | null;
+  maxWeight: number | null; // largest absolute single-asset weight
+  warnAt: number; // utilisation that turns a limit amber
+};
+
+export const DEFAULT_LIMITS: RiskLimits = {
+  maxVaR: 0.03,
+  maxVol: 0.2,
+  minBeta: 0,
+  maxBeta: 1.2,
+  maxDrawdown: 0.25,
+  maxWeight: 0.5,
+  warnAt: 0.8,
+};
+
+export type LimitKey = "var" | "vol" | "beta" | "maxDD" | "weight";
+
+export type LimitStatus = "green" | "amber" | "red";
+
+export type LimitMetrics = { var: number; vol: number; beta: number; maxDD: number; weights: number[] };
+
+export type LimitCheck = {
+  key: LimitKey;
+  label: string;
+  value: number;
+  min: number | null;
+  max: number | null;
+  ticker?: string; // largest position only
+  utilisation: number;
+  status: LimitStatus;
+};
+
+function status(utilisation: number, warnAt: number): LimitStatus {
+  return utilisation > 1 + 1e-9 ? "red" : utilisation >= warnAt ? "amber" : "green";
+}
+
+const ratio = (x: number, limit: number) => (limit > 0 ? x / limit : x > 0 ? Infinity : 0);
+
+// with both bounds either edge is 100% (|β − centre| / half-width); a lone lower bound is pass/fail
+function bandUtilisation(x: number, lo: number | null, hi: number | null) {
+  if (lo != null && hi != null) {
+    const half = (hi - lo) / 2;
+    return half > 0 ? Math.abs(x - (lo + hi) / 2) / half : x === lo ? 1 : Infinity;
+  }
+  if (hi != null) return ratio(x, hi);
+  if (lo != null) return x >= lo ? 0 : Infinity;
+  return 0;
+}
+
+export function checkLimits(m: LimitMetrics, limits: RiskLimits, tickers: string[]): LimitCheck[] {
+  const out: LimitCheck[] = [];
+  const add = (c: Omit<LimitCheck, "status">) => out.push({ ...c, status: status(c.utilisation, limits.warnAt) });
+
+  if (limits.maxVaR != null) add({ key: "var", label: "VaR", value: m.var, min: null, max: limits.maxVaR, utilisation: ratio(m.var, limits.maxVaR) });
+  if (limits.maxVol != null) add({ key: "vol", label: "Volatility", value: m.vol, min: null, max: limits.maxVol, utilisation: ratio(m.vol, limits.maxVol) });
+  if (limits.minBeta != null || limits.maxBeta != null) {
+    add({ key: "beta", label: "Beta", value: m.beta, min: limits.minBeta, max: limits.maxBeta, utilisation: bandUtilisation(m.beta, limits.minBeta, limits.maxBeta) });
+  }
+  if (limits.maxDrawdown != null) {
+    add({ key: "maxDD", label: "Max drawdown", value: m.maxDD, min: null, max: limits.maxDrawdown, utilisation: ratio(m.maxDD, limits.maxDrawdown) });
+  }
+  if (limits.maxWeight != null && m.weights.length) {
+    const i = m.weights.reduce((best, x, j) => (Math.abs(x) > Math.abs(m.weights[best]) ? j : best), 0);
+    const x = m.weights[i];
+    add({ key: "weight", label: "Largest position", value: x, min: null, max: limits.maxWeight, ticker: tickers[i], utilisation: ratio(Math.abs(x), limits.maxWeight) });
+  }
+  return out;
+}
+
+export function worstStatus(checks: LimitCheck[]): LimitStatus {
+  return checks.some((c) => c.status === "red") ? "red" : checks.some((c) => c.status === "amber") ? "amber" : "green";
+}
+
+// instant figures for weights that have not been through the engine yet (optimizer suggestions):
+// VaR is the normal one on the covariance matrix, the rest are exact. In exposure mode the cash line
+// 1 − Σw earns `cashRate` (annual), as in analyzePortfolio().
+export function estimateLimitMetrics(
+  assets: Asset[],
+  w: number[],
+  stats: { covMatrix: number[][]; means: number[]; betas: number[] },
+  annFactor: number,
+  conf: number,
+  horizon: number,
+  mode: WeightMode = "normalized",
+  cashRate = 0,
+): LimitMetrics {
+  const cashReturn = mode === "exposure" ? (exposureSummary(w).cash * cashRate) / annFactor : 0;
+  const sigma = Math.sqrt(Math.max(0, quadraticForm(w, stats.covMatrix)));
+  const mu = w.reduce((s, x, i) => s + x * stats.means[i], cashReturn);
+  return {
+    var: parametricTail(mu, sigma, conf, horizon).var,
+    vol: sigma * Math.sqrt(annFactor),
+    beta: w.reduce((s, x, i) => s + x * stats.betas[i], 0),
+    maxDD: maxDrawdown(portfolioReturns(assets, w, cashReturn)).maxDD,
+    weights: w,
+  };
+}
@@ -0,0 +1,83 @@
+// ---------- Monte Carlo VaR ---------- //
+// Scenarios are drawn once per (covariance, path count, seed) at asset level,
+// so moving a weight slider only re-aggregates them instead of re-simulating.
+
+import { cholesky, createRng } from "./simulation";
+import { tailFromSorted, type TailRisk } from "./risk";
+
+export type MonteCarloSettings = { paths: number; seed: number };
+
+export type Scenarios = { paths: number; draws: Float64Array[] }; // draws[i][p] = asset i return in scenario p
+
+export type MonteCarloTail = TailRisk & { varCI: [number, number]; esCI: [number, number]; paths: number };
+
+const Z_CI = 1.96; // 95% sampling interval
+
+// sample covariances can be singular (e.g. more assets than days); nudge the diagonal until they factor
+function factor(cov: number[][]) {
+  const n = cov.length;
+  const scale = cov.reduce((s, row, i) => s + row[i], 0) / Math.max(n, 1) || 1;
+  for (let jitter = 0; jitter < 1; jitter = jitter === 0 ? 1e-10 : jitter * 10) {
+    const L = cholesky(cov.map((row, i) => row.map((v, j) => (i === j ? v + jitter * scale : v))));
+    if (L) return L;
+  }
+  throw new Error("Covariance matrix could not be factorized.");
+}
+
+export function simulateScenarios(mu: number[], cov: number[][], settings: MonteCarloSettings): Scenarios {
+  const n = mu.length;
+  const L = factor(cov);
+  const rng = createRng(settings.seed);
+  const draws = mu.map(() => new Float64Array(settings.paths));
+  const z = new Float64Array(n);
+  for (let p = 0; p < settings.paths; p++) {
+    for (let i = 0; i < n; i++) z[i] = rng.normal();
+    for (let i = 0; i < n; i++) {
+      let e = 0;
+      for (let k = 0; k <= i; k++) e += L[i][k] * z[k];
+      draws[i][p] = mu[i] + e;
+    }
+  }
+  return { paths: settings.paths, draws };
+}
+
+// portfolio VaR/ES over h days (μ·h, σ·√h) with 95% sampling intervals;
+// `offset` is a riskless daily return added to every scenario (e.g. cash)
+export function monteCarloTail(sc: Scenarios, w: number[], conf: number, h = 1, offset = 0): MonteCarloTail {
+  const N = sc.paths;
+  const port = new Float64Array(N).fill(offset);
+  for (let i = 0; i < sc.draws.length; i++) {
+    const d = sc.draws[i];
+    const wi = w[i] ?? 0;
+    for (let p = 0; p < N; p++) port[p] += wi * d[p];
+  }
+  let m = 0;
+  for (let p = 0; p < N; p++) m += port[p] / N;
+  const sh = Math.sqrt(h);
+  for (let p = 0; p < N; p++) port[p] = m * h + sh * (port[p] - m);
+
+  const sorted = port.sort(); // typed arrays sort numerically
+  const { var: v, es } = tailFromSorted(sorted, conf);
+  const alpha = 1 - conf;
+
+  // VaR: binomial order-statistic interval around the alpha-quantile
+  const half = Z_CI * Math.sqrt(N * alpha * (1 - alpha));
+  const lo = sorted[Math.max(0, Math.floor(N * alpha - half))];
+  const hi = sorted[Math.min(N - 1, Math.ceil(N * alpha + half))];
+
+  // ES: asymptotic standard error of the tail mean (Yamai & Yoshiba)
+  const nTail = Math.max(1, Math.floor(N * alpha));
+  let tm = 0;
+  for (let p = 0; p < nTail; p++) tm -= sorted[p] / nTail;
+  let tv = 0;
+  for (let p = 0; p < nTail; p++) tv += (-sorted[p] - tm) ** 2 / Math.max(1, nTail - 1);
+  const se = Math.sqrt((tv + conf * (tm - v) ** 2) / (N * alpha));
+
+  return {
+    var: v,
+    es,
+    varCI: [Math.max(0, -hi), Math.max(0, -lo)],
+    esCI: [Math.max(0, es - Z_CI * se), es + Z_CI * se],
+    paths: N,
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { efficientFrontier, maxSharpe, minVariance, portfolioStats, riskParity, targetVolatility, type Bounds } from "./optimizer";
+
+// annual figures for four assets with mixed correlations
+const mu = [0.08, 0.06, 0.03, 0.1];
+const sd = [0.2, 0.15, 0.05, 0.3];
+const corr = [
+  [1, 0.5, 0.1, 0.6],
+  [0.5, 1, 0.2, 0.4],
+  [0.1, 0.2, 1, 0],
+  [0.6, 0.4, 0, 1],
+];
+const cov = corr.map((row, i) => row.map((c, j) => c * sd[i] * sd[j]));
+
+const longOnly: Bounds = { min: [0, 0, 0, 0], max: [1, 1, 1, 1] };
+const capped: Bounds = { min: [0.05, 0.05, 0, 0], max: [0.4, 0.4, 0.4, 0.4] };
+
+function expectFeasible(w: number[], b: Bounds) {
+  expect(w.reduce((s, x) => s + x, 0)).toBeCloseTo(1, 9);
+  w.forEach((x, i) => {
+    expect(x).toBeGreaterThanOrEqual(b.min[i] - 1e-9);
+    expect(x).toBeLessThanOrEqual(b.max[i] + 1e-9);
+  });
+}
+
+describe("optimizer solvers", () => {
+  it("return fully invested weights inside the bounds", () => {
+    for (const b of [longOnly, capped]) {
+      expectFeasible(minVariance(cov, b), b);
+      expectFeasible(riskParity(cov, b), b);
+      expectFeasible(maxSharpe(mu, cov, 0.02, b), b);
+      expectFeasible(targetVolatility(mu, cov, 0.12, b), b);
+      efficientFrontier(mu, cov, b).forEach((p) => expectFeasible(p.w, b));
+    }
+  });
+
+  it("finds the closed-form minimum-variance weights for uncorrelated assets", () => {
+    const diag = [
+      [0.04, 0, 0],
+      [0, 0.01, 0],
+      [0, 0, 0.0025],
+    ];
+    // w ∝ 1/σ²: 25, 100, 400 out of 525
+    const w = minVariance(diag, { min: [0, 0, 0], max: [1, 1, 1] });
+    [25 / 525, 100 / 525, 400 / 525].forEach((x, i) => expect(w[i]).toBeCloseTo(x, 6));
+  });
+
+  it("equalises risk contributions in risk parity", () => {
+    const w = riskParity(cov, longOnly);
+    const sw = cov.map((row) => row.reduce((s, c, j) => s + c * w[j], 0));
+    const rc = w.map((x, i) => x * sw[i]);
+    const total = rc.reduce((s, x) => s + x, 0);
+    rc.forEach((x) => expect(x / total).toBeCloseTo(0.25, 6));
+  });
+
+  it("hits a feasible target volatility", () => {
+    const lo = portfolioStats(mu, cov, minVariance(cov, longOnly)).vol;
+    for (const target of [0.06, 0.1, 0.15]) {
+      expect(target).toBeGreaterThan(lo);
+      expect(portfolioStats(mu, cov, targetVolatility(mu, cov, target, longOnly)).vol).toBeCloseTo(target, 4);
+    }
+  });
+
+  it("falls back to minimum variance when the target is below it", () => {
+    const w = targetVolatility(mu, cov, 0.001, longOnly);
+    const mv = minVariance(cov, longOnly);
+    w.forEach((x, i) => expect(x).toBeCloseTo(mv[i], 9));
+  });
+
+  it("beats every frontier point on Sharpe ratio", () => {
+    const rf = 0.02;
+    const best = portfolioStats(mu, cov, maxSharpe(mu, cov, rf, longOnly), rf).sharpe;
+    for (const p of efficientFrontier(mu, cov, longOnly, rf)) expect(best).toBeGreaterThanOrEqual(p.sharpe - 1e-4);
+  });
+
+  it("orders the frontier by volatility with non-decreasing return", () => {
+    const f = efficientFrontier(mu, cov, longOnly);
+    for (let k = 1; k < f.length; k++) {
+      expect(f[k].vol).toBeGreaterThanOrEqual(f[k - 1].vol);
+      expect(f[k].ret).toBeGreaterThanOrEqual(f[k - 1].ret - 1e-6);
+    }
+  });
+});
@@ -0,0 +1,138 @@
+// ---------- portfolio optimisation ---------- //
+// Every solver works on fully-invested weights (Σw = 1) inside per-asset
+// [min, max] bounds. Mean–variance problems are solved by accelerated projected
+// gradient (FISTA), which is plenty for the handful of assets in the wizard.
+
+export type Bounds = { min: number[]; max: number[] };
+
+export type Solution = { w: number[]; ret: number; vol: number; sharpe: number };
+
+function dot(a: number[], b: number[]) {
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
+  return s;
+}
+
+function covTimes(cov: number[][], w: number[]) {
+  return cov.map((row) => dot(row, w));
+}
+
+export function portfolioStats(mu: number[], cov: number[][], w: number[], rf = 0): Solution {
+  const ret = dot(mu, w);
+  const vol = Math.sqrt(Math.max(0, dot(w, covTimes(cov, w))));
+  return { w, ret, vol, sharpe: vol === 0 ? 0 : (ret - rf) / vol };
+}
+
+export function checkBounds(b: Bounds) {
+  const lo = b.min.reduce((s, x) => s + x, 0);
+  const hi = b.max.reduce((s, x) => s + x, 0);
+  if (b.min.some((m, i) => m > b.max[i])) throw new Error("A minimum weight is above its maximum.");
+  if (lo > 1 + 1e-9 || hi < 1 - 1e-9) throw new Error("Bounds cannot sum to 100%: minimums are too high or maximums too low.");
+}
+
+// Euclidean projection onto { Σw = 1, min ≤ w ≤ max } by bisection on the shift
+export function projectBounded(v: number[], b: Bounds) {
+  const clip = (x: number, i: number) => Math.min(b.max[i], Math.max(b.min[i], x));
+  let lo = -1;
+  let hi = 1;
+  for (let i = 0; i < v.length; i++) {
+    lo = Math.min(lo, v[i] - b.max[i] - 1);
+    hi = Math.max(hi, v[i] - b.min[i] + 1);
+  }
+  for (let k = 0; k < 60; k++) {
+    const mid = (lo + hi) / 2;
+    let sum = 0;
+    for (let i = 0; i < v.length; i++) sum += clip(v[i] - mid, i);
+    if (sum > 1) lo = mid;
+    else hi = mid;
+  }
+  const t = (lo + hi) / 2;
+  return v.map((x, i) => clip(x - t, i));
+}
+
+// maximise μᵀw − (γ/2)·wᵀΣw
+export function meanVariance(mu: number[], cov: number[][], gamma: number, b: Bounds, iters = 2000) {
+  const n = mu.length;
+  // Gershgorin bound on the largest eigenvalue gives a safe step size
+  const L = gamma * Math.max(...cov.map((row) => row.reduce((s, x) => s + Math.abs(x), 0))) || 1;
+  let w = projectBounded(Array(n).fill(1 / n), b);
+  let y = w;
+  let t = 1;
+  for (let k = 0; k < iters; k++) {
+    const g = covTimes(cov, y).map((x, i) => gamma * x - mu[i]);
+    const next = projectBounded(y.map((x, i) => x - g[i] / L), b);
+    if (next.every((x, i) => Math.abs(x - w[i]) < 1e-10)) return next;
+    const tNext = (1 + Math.sqrt(1 + 4 * t * t)) / 2;
+    y = next.map((x, i) => x + ((t - 1) / tNext) * (x - w[i]));
+    w = next;
+    t = tNext;
+  }
+  return w;
+}
+
+export function minVariance(cov: number[][], b: Bounds) {
+  return meanVariance(cov.map(() => 0), cov, 1, b);
+}
+
+// equal risk contribution: multiplicative fixed point wᵢ ← wᵢ·√(target / RCᵢ), kept inside the bounds
+export function riskParity(cov: number[][], b: Bounds, iters = 500) {
+  const n = cov.length;
+  let w = projectBounded(cov.map((row, i) => 1 / Math.sqrt(row[i] || 1e-12)), b);
+  for (let k = 0; k < iters; k++) {
+    const sw = covTimes(cov, w);
+    const variance = dot(w, sw);
+    const next = w.map((wi, i) => {
+      const rc = wi * sw[i];
+      return rc > 0 ? wi * Math.sqrt(variance / n / rc) : wi;
+    });
+    w = projectBounded(next.map((x) => x / next.reduce((s, y) => s + y, 0)), b);
+  }
+  return w;
+}
+
+const GAMMAS = Array.from({ length: 40 }, (_, k) => 10 ** (-2 + (k * 5) / 39)); // 0.01 … 1000
+
+export function efficientFrontier(mu: number[], cov: number[][], b: Bounds, rf = 0) {
+  const pts = [minVariance(cov, b), ...GAMMAS.map((g) => meanVariance(mu, cov, g, b, 800))].map((w) => portfolioStats(mu, cov, w, rf));
+  // keep the efficient (upper) branch, ordered by volatility
+  const minVar = pts[0];
+  return pts.filter((p) => p.ret >= minVar.ret - 1e-12).sort((a, c) => a.vol - c.vol);
+}
+
+export function maxSharpe(mu: number[], cov: number[][], rf: number, b: Bounds) {
+  const sharpeAt = (lg: number) => portfolioStats(mu, cov, meanVariance(mu, cov, 10 ** lg, b, 800), rf).sharpe;
+  // coarse grid over log γ, then golden-section search around the best point
+  let best = -2;
+  let bestS = -Infinity;
+  for (let lg = -2; lg <= 3; lg += 0.25) {
+    const s = sharpeAt(lg);
+    if (s > bestS) [best, bestS] = [lg, s];
+  }
+  let a = best - 0.25;
+  let c = best + 0.25;
+  const phi = (Math.sqrt(5) - 1) / 2;
+  for (let k = 0; k < 20; k++) {
+    const x1 = c - phi * (c - a);
+    const x2 = a + phi * (c - a);
+    if (sharpeAt(x1) > sharpeAt(x2)) c = x2;
+    else a = x1;
+  }
+  const w = meanVariance(mu, cov, 10 ** ((a + c) / 2), b);
+  return portfolioStats(mu, cov, w, rf).sharpe >= bestS ? w : meanVariance(mu, cov, 10 ** best, b);
+}
+
+// highest-return portfolio whose volatility does not exceed the target
+export function targetVolatility(mu: number[], cov: number[][], target: number, b: Bounds) {
+  const volAt = (lg: number) => portfolioStats(mu, cov, meanVariance(mu, cov, 10 ** lg, b, 800)).vol;
+  const mv = minVariance(cov, b);
+  if (portfolioStats(mu, cov, mv).vol >= target) return mv;
+  let lo = -3; // aggressive: low risk aversion
+  let hi = 5; // conservative
+  if (volAt(lo) <= target) return meanVariance(mu, cov, 10 ** lo, b);
+  for (let k = 0; k < 40; k++) {
+    const mid = (lo + hi) / 2;
+    if (volAt(mid) > target) lo = mid;
+    else hi = mid;
+  }
+  return meanVariance(mu, cov, 10 ** hi, b);
+}
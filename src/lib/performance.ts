@@ -0,0 +1,69 @@
+// ---------- performance & risk-adjusted return ---------- //
+// From daily simple returns; ratios are annualized with `annFactor` and a risk-free rate `rf` per year.
+
+import { beta, maxDrawdown } from "./engine";
+import { excessKurtosis, mean, skewness, std } from "./stats";
+
+export type PerformanceMetrics = {
+  annReturn: number; // geometric
+  benchAnnReturn: number;
+  annVol: number;
+  sharpe: number;
+  sortino: number;
+  calmar: number;
+  trackingError: number;
+  informationRatio: number;
+  beta: number;
+  alpha: number; // Jensen's alpha, annualized
+  upCapture: number;
+  downCapture: number;
+  skewness: number;
+  excessKurtosis: number;
+};
+
+const ratio = (a: number, b: number) => (b === 0 ? 0 : a / b);
+
+export function annualizedReturn(returns: number[], annFactor = 252) {
+  if (!returns.length) return 0;
+  const growth = returns.reduce((acc, r) => acc * (1 + r), 1);
+  return growth ** (annFactor / returns.length) - 1;
+}
+
+// root mean square of returns below the target (daily)
+export function downsideDeviation(returns: number[], target = 0) {
+  if (!returns.length) return 0;
+  return Math.sqrt(returns.reduce((s, r) => s + Math.min(0, r - target) ** 2, 0) / returns.length);
+}
+
+// mean portfolio return over mean benchmark return, on the days the benchmark rose (up) or fell (down)
+export function captureRatio(returns: number[], bench: number[], side: "up" | "down") {
+  const days = bench.map((_, t) => t).filter((t) => (side === "up" ? bench[t] > 0 : bench[t] < 0));
+  if (!days.length) return 0;
+  return ratio(mean(days.map((t) => returns[t])), mean(days.map((t) => bench[t])));
+}
+
+export function performanceMetrics(returns: number[], bench: number[], rf: number, annFactor = 252): PerformanceMetrics {
+  const rfDaily = rf / annFactor;
+  const excess = mean(returns) - rfDaily;
+  const annVol = std(returns) * Math.sqrt(annFactor);
+  const annReturn = annualizedReturn(returns, annFactor);
+  const active = returns.map((r, t) => r - bench[t]);
+  const trackingError = std(active) * Math.sqrt(annFactor);
+  const b = beta(returns, bench);
+  return {
+    annReturn,
+    benchAnnReturn: annualizedReturn(bench, annFactor),
+    annVol,
+    sharpe: ratio(excess * annFactor, annVol),
+    sortino: ratio(excess * annFactor, downsideDeviation(returns, rfDaily) * Math.sqrt(annFactor)),
+    calmar: ratio(annReturn, maxDrawdown(returns).maxDD),
+    trackingError,
+    informationRatio: ratio(mean(active) * annFactor, trackingError),
+    beta: b,
+    alpha: (excess - b * (mean(bench) - rfDaily)) * annFactor,
+    upCapture: captureRatio(returns, bench, "up"),
+    downCapture: captureRatio(returns, bench, "down"),
+    skewness: skewness(returns),
+    excessKurtosis: excessKurtosis(returns),
+  };
+}
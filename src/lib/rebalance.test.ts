@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { portfolioReturns, type Asset } from "./engine";
+import { simulateRebalancing } from "./rebalance";
+
+function series(ticker: string, seed: number, n = 120): Asset {
+  let s = seed;
+  return { ticker, returns: Array.from({ length: n }, () => ((s = (s * 16807) % 2147483647) / 2147483647 - 0.5) * 0.04) };
+}
+
+describe("simulateRebalancing", () => {
+  const assets = [series("A", 3), series("B", 11), series("C", 29)];
+  const target = [0.5, 0.3, 0.2];
+
+  it("reproduces the constant-weight returns with free daily rebalancing", () => {
+    const r = simulateRebalancing(assets, target, { policy: "daily", band: 0, costBps: 0 });
+    const ideal = portfolioReturns(assets, target);
+    r.returns.forEach((x, t) => expect(x).toBeCloseTo(ideal[t], 12));
+    expect(r.costs).toBe(0);
+  });
+
+  it("does the same with a cash line in exposure mode", () => {
+    const w = [0.6, 0.6, -0.4];
+    const rate = 0.0002; // daily, on the cash line 1 − Σw = 0.2
+    const r = simulateRebalancing(assets, w, { policy: "daily", band: 0, costBps: 0 }, rate);
+    const ideal = portfolioReturns(assets, w, 0.2 * rate);
+    r.returns.forEach((x, t) => expect(x).toBeCloseTo(ideal[t], 12));
+  });
+
+  it("trades under a threshold rule only once a weight drifts past the band", () => {
+    const band = 0.03;
+    const r = simulateRebalancing(assets, target, { policy: "threshold", band, costBps: 0 });
+    expect(r.rebalances.length).toBeGreaterThan(0);
+    r.weights.forEach((drift, t) => {
+      const beyond = drift.some((x, i) => Math.abs(x - target[i]) > band);
+      if (t < r.weights.length - 1) expect(r.rebalances.includes(t)).toBe(beyond);
+    });
+  });
+
+  it("never trades under buy-and-hold and charges costs only when trading", () => {
+    const hold = simulateRebalancing(assets, target, { policy: "buy-and-hold", band: 0, costBps: 50 });
+    expect(hold.rebalances).toEqual([]);
+    expect(hold.turnover).toBe(0);
+    expect(hold.costs).toBe(0);
+    const monthly = simulateRebalancing(assets, target, { policy: "monthly", band: 0, costBps: 50 });
+    expect(monthly.rebalances).toEqual([20, 41, 62, 83, 104]);
+    expect(monthly.costs).toBeCloseTo(monthly.turnover * 0.005, 12);
+  });
+});
@@ -0,0 +1,95 @@
+// ---------- rebalancing & transaction-cost simulation ---------- //
+// portfolioReturns() applies the target weights every day, i.e. free daily rebalancing. Here the
+// holdings drift with prices between rebalances, and every rebalance pays a proportional cost on
+// the notional traded. Daily rebalancing at zero cost reproduces portfolioReturns() exactly.
+
+import type { Asset } from "./engine";
+
+export type RebalancePolicy = "daily" | "buy-and-hold" | "monthly" | "quarterly" | "threshold";
+
+export type RebalanceSettings = {
+  policy: RebalancePolicy;
+  band: number; // threshold policy: rebalance once any weight is this far (absolute) from target
+  costBps: number; // cost per unit notional traded, in basis points
+};
+
+export const DEFAULT_REBALANCE: RebalanceSettings = { policy: "monthly", band: 0.05, costBps: 10 };
+
+export const REBALANCE_POLICIES: Array<{ value: RebalancePolicy; label: string }> = [
+  { value: "daily", label: "Daily" },
+  { value: "buy-and-hold", label: "Buy & hold" },
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+  { value: "threshold", label: "Threshold band" },
+];
+
+// trading-day periods used when the data has no dates (sample data)
+const PERIOD_DAYS: Partial<Record<RebalancePolicy, number>> = { monthly: 21, quarterly: 63 };
+
+export type RebalanceResult = {
+  returns: number[]; // daily, net of costs
+  nav: number[];
+  weights: number[][]; // per day, end-of-day weights before any rebalance (the drift)
+  rebalances: number[]; // days on whose close the book was rebalanced
+  turnover: number; // notional traded over the period, as a multiple of NAV
+  costs: number; // sum of the daily costs as fractions of NAV
+};
+
+// calendar policies rebalance on the last observation of each month/quarter when dates are known
+function periodEnds(policy: RebalancePolicy, n: number, dates: string[] | null) {
+  const ends = new Array<boolean>(n).fill(false);
+  if (policy !== "monthly" && policy !== "quarterly") return ends;
+  const period = (d: string) => {
+    const [y, m] = d.split("-").map(Number);
+    return policy === "monthly" ? y * 12 + m : y * 4 + Math.floor((m - 1) / 3);
+  };
+  const dated = dates && dates.length === n && dates.every((d) => /^\d{4}-\d{2}/.test(d));
+  for (let t = 0; t < n - 1; t++) {
+    ends[t] = dated ? period(dates![t]) !== period(dates![t + 1]) : (t + 1) % PERIOD_DAYS[policy]! === 0;
+  }
+  return ends;
+}
+
+// `cashDaily` is the daily rate on the cash line 1 − Σw (exposure mode); costs come out of NAV
+export function simulateRebalancing(assets: Asset[], target: number[], settings: RebalanceSettings, cashDaily = 0, dates: string[] | null = null): RebalanceResult {
+  const n = assets.length ? assets[0].returns.length : 0;
+  const k = assets.length;
+  const cost = settings.costBps / 10000;
+  const ends = periodEnds(settings.policy, n, dates);
+
+  // holdings in NAV units, starting at the target with NAV 1
+  const h = target.slice(0, k);
+  let cash = 1 - h.reduce((a, b) => a + b, 0);
+  let prev = 1;
+
+  const out: RebalanceResult = { returns: [], nav: [], weights: [], rebalances: [], turnover: 0, costs: 0 };
+  for (let t = 0; t < n; t++) {
+    for (let i = 0; i < k; i++) h[i] *= 1 + assets[i].returns[t];
+    cash *= 1 + cashDaily;
+    let nav = cash + h.reduce((a, b) => a + b, 0);
+    const drift = h.map((x) => (nav === 0 ? 0 : x / nav));
+    out.weights.push(drift);
+
+    const due =
+      t < n - 1 &&
+      (settings.policy === "daily" ||
+        ends[t] ||
+        (settings.policy === "threshold" && drift.some((x, i) => Math.abs(x - target[i]) > settings.band)));
+    if (due) {
+      // trades are sized on the pre-cost NAV; the cost is then paid from cash
+      const traded = h.reduce((s, x, i) => s + Math.abs(target[i] * nav - x), 0);
+      const paid = traded * cost;
+      nav -= paid;
+      for (let i = 0; i < k; i++) h[i] = target[i] * nav;
+      cash = nav - h.reduce((a, b) => a + b, 0);
+      if (traded > 1e-12) out.rebalances.push(t);
+      out.turnover += traded / (nav + paid);
+      out.costs += paid / (nav + paid);
+    }
+
+    out.returns.push(nav / prev - 1);
+    out.nav.push(nav);
+    prev = nav;
+  }
+  return out;
+}
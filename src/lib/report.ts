@@ -0,0 +1,146 @@
+// ---------- exportable risk report ---------- //
+// CSV tables and a machine-readable JSON summary of everything Step 4 shows.
+
+import { backtestVaR } from "./backtest";
+import { parametricVaRContributions, volatilityContributions } from "./decomposition";
+import type { CovEstimator } from "./covariance";
+import type { CovarianceInfo, WeightMode } from "./engine";
+import { worstStatus, type LimitCheck } from "./limits";
+import type { MonteCarloTail } from "./monteCarlo";
+import { annualizedReturn, performanceMetrics } from "./performance";
+import { simulateRebalancing, type RebalanceSettings } from "./rebalance";
+import type { TailRisk } from "./risk";
+
+export type ReportInput = {
+  generatedAt: string;
+  source: "sample" | "imported";
+  dates: string[] | null; // return dates when the data was imported
+  assets: Array<{ ticker: string; returns: number[] }>;
+  bench: { ticker: string; returns: number[] };
+  w: number[];
+  settings: {
+    conf: number;
+    horizon: number;
+    method: string;
+    notional: number;
+    shock: number;
+    mcPaths: number;
+    mcSeed: number;
+    weightMode: WeightMode;
+    cashRate: number;
+    covariance: CovarianceInfo;
+    riskFree: number; // annual, for the performance ratios
+    rebalance: RebalanceSettings;
+  };
+  pReturns: number[];
+  nav: number[];
+  covMatrix: number[][];
+  corrMatrix: number[][];
+  means: number[];
+  annFactor: number;
+  cashReturn: number; // daily return of the cash line (exposure mode)
+  metrics: {
+    volAnn: number;
+    volByMatrix: number;
+    portBeta: number;
+    assetBetas: number[];
+    skewness: number;
+    excessKurtosis: number;
+    maxDD: number;
+    stressLoss: number;
+  };
+  tails: { historical: TailRisk; parametric: TailRisk; cornishFisher: TailRisk; monteCarlo: MonteCarloTail };
+  limits: LimitCheck[];
+  estimatorComparison: Array<{ estimator: CovEstimator; volAnn: number; var: number }>;
+  scenarios: Array<{ name: string; total: number }>;
+};
+
+function csvCell(v: string | number) {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsv(rows: Array<Array<string | number>>) {
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+export function returnsCsv(r: ReportInput) {
+  const rows: Array<Array<string | number>> = [["date", "portfolio_return", "nav", `${r.bench.ticker}_return`]];
+  r.pReturns.forEach((x, t) => rows.push([r.dates?.[t] ?? t + 1, x, r.nav[t], r.bench.returns[t]]));
+  return toCsv(rows);
+}
+
+export function correlationCsv(r: ReportInput) {
+  const tickers = r.assets.map((a) => a.ticker);
+  return toCsv([["", ...tickers], ...r.corrMatrix.map((row, i) => [tickers[i], ...row])]);
+}
+
+export function summaryJson(r: ReportInput) {
+  const tickers = r.assets.map((a) => a.ticker);
+  const vol = volatilityContributions(r.covMatrix, r.w, r.annFactor);
+  const pvar = parametricVaRContributions(r.covMatrix, r.means, r.w, r.settings.conf, r.cashReturn);
+  const window = [250, 126, 63].find((k) => r.pReturns.length - k >= 21);
+  const bt = window ? backtestVaR(r.pReturns, window, r.settings.conf, "historical") : null;
+  const perf = performanceMetrics(r.pReturns, r.bench.returns, r.settings.riskFree, r.annFactor);
+  const cashDaily = r.settings.weightMode === "exposure" ? r.settings.cashRate / r.annFactor : 0;
+  const reb = simulateRebalancing(r.assets, r.w, r.settings.rebalance, cashDaily, r.dates);
+  const years = reb.returns.length / r.annFactor || 1;
+
+  return JSON.stringify(
+    {
+      generatedAt: r.generatedAt,
+      data: {
+        source: r.source,
+        observations: r.pReturns.length,
+        from: r.dates?.[0] ?? null,
+        to: r.dates?.[r.dates.length - 1] ?? null,
+        benchmark: r.bench.ticker,
+      },
+      portfolio: tickers.map((t, i) => ({ ticker: t, weight: r.w[i], beta: r.metrics.assetBetas[i] })),
+      settings: r.settings,
+      metrics: {
+        volatilityAnnualized: r.metrics.volAnn,
+        volatilityByMatrix: r.metrics.volByMatrix,
+        beta: r.metrics.portBeta,
+        skewness: r.metrics.skewness,
+        excessKurtosis: r.metrics.excessKurtosis,
+        maxDrawdown: r.metrics.maxDD,
+        stressImpact: r.metrics.stressLoss,
+      },
+      performance: { riskFree: r.settings.riskFree, ...perf },
+      limits: { status: worstStatus(r.limits), checks: r.limits },
+      tailRisk: r.tails,
+      estimatorComparison: r.estimatorComparison,
+      decomposition: tickers.map((t, i) => ({
+        ticker: t,
+        volatility: vol.items[i],
+        parametricVaR: pvar.items[i],
+      })),
+      backtest: bt
+        ? {
+            window,
+            method: "historical",
+            observations: bt.observations,
+            exceptions: bt.exceptions,
+            expected: bt.expected,
+            kupiec: bt.kupiec,
+            christoffersen: bt.christoffersen,
+            conditional: bt.conditional,
+            zone: bt.zone,
+          }
+        : null,
+      rebalancing: {
+        ...r.settings.rebalance,
+        rebalances: reb.rebalances.length,
+        turnoverAnnualized: reb.turnover / years,
+        costDragAnnualized: reb.costs / years,
+        returnAnnualized: annualizedReturn(reb.returns, r.annFactor), // after costs
+        constantWeightsReturnAnnualized: annualizedReturn(r.pReturns, r.annFactor),
+      },
+      scenarios: r.scenarios,
+      correlation: { tickers, matrix: r.corrMatrix },
+    },
+    null,
+    2,
+  );
+}
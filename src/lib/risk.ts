@@ -0,0 +1,84 @@
+// ---------- VaR & Expected Shortfall ---------- //
+// All figures are positive loss fractions over a horizon of `h` trading days.
+
+import { cornishFisher, normalPdf, zFromConf } from "./stats";
+
+export type TailRisk = { var: number; es: number };
+
+export type VaRMethod = "historical" | "parametric" | "cornish-fisher" | "monte-carlo";
+
+export const VAR_METHODS: Array<{ value: VaRMethod; label: string; short: string }> = [
+  { value: "historical", label: "Historical Simulation", short: "Hist" },
+  { value: "parametric", label: "Variance–Covariance", short: "V-C" },
+  { value: "cornish-fisher", label: "Modified (Cornish–Fisher)", short: "mVaR" },
+  { value: "monte-carlo", label: "Monte Carlo", short: "MC" },
+];
+
+export const HORIZONS = [
+  { label: "1 day", days: 1 },
+  { label: "10 days", days: 10 },
+  { label: "1 month", days: 21 },
+];
+
+// compounded returns over every overlapping window of h days
+export function horizonReturns(returns: number[], h: number) {
+  if (h <= 1) return returns;
+  const out: number[] = [];
+  for (let t = 0; t + h <= returns.length; t++) {
+    let acc = 1;
+    for (let k = t; k < t + h; k++) acc *= 1 + returns[k];
+    out.push(acc - 1);
+  }
+  return out;
+}
+
+// empirical quantile for VaR, average of the losses at or beyond it for ES
+export function tailFromSorted(sorted: ArrayLike<number>, conf: number): TailRisk {
+  const n = sorted.length;
+  if (n === 0) return { var: NaN, es: NaN };
+  const pos = (n - 1) * (1 - conf);
+  const base = Math.floor(pos);
+  const rest = pos - base;
+  const q = base + 1 < n ? sorted[base] + rest * (sorted[base + 1] - sorted[base]) : sorted[base];
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < n && sorted[i] <= q; i++) {
+    sum += sorted[i];
+    count++;
+  }
+  return { var: Math.max(0, -q), es: Math.max(0, -sum / count) };
+}
+
+export function empiricalTail(sample: number[], conf: number) {
+  return tailFromSorted([...sample].sort((a, b) => a - b), conf);
+}
+
+export function historicalTail(returns: number[], conf: number, h = 1) {
+  return empiricalTail(horizonReturns(returns, h), conf);
+}
+
+// normal VaR/ES with √t scaling of σ and linear scaling of μ
+export function parametricTail(mu: number, sigma: number, conf: number, h = 1): TailRisk {
+  const z = zFromConf(conf);
+  const s = sigma * Math.sqrt(h);
+  const m = mu * h;
+  return {
+    var: Math.max(0, z * s - m),
+    es: Math.max(0, (s * normalPdf(z)) / (1 - conf) - m),
+  };
+}
+
+// Cornish–Fisher "modified" VaR adjusting the normal quantile for skewness and excess
+// kurtosis; ES averages the adjusted quantiles across the tail. Under iid aggregation
+// skewness shrinks with 1/√h and excess kurtosis with 1/h.
+export function modifiedTail(mu: number, sigma: number, skew: number, exKurt: number, conf: number, h = 1): TailRisk {
+  const s = sigma * Math.sqrt(h);
+  const m = mu * h;
+  const sk = skew / Math.sqrt(h);
+  const ku = exKurt / h;
+  const loss = (c: number) => -(m - s * cornishFisher(zFromConf(c), -sk, ku));
+  const steps = 200;
+  let es = 0;
+  for (let i = 0; i < steps; i++) es += loss(conf + ((1 - conf) * (i + 0.5)) / steps) / steps;
+  return { var: Math.max(0, loss(conf)), es: Math.max(0, es) };
+}
@@ -0,0 +1,84 @@
+// ---------- rolling-window analytics ---------- //
+// Each series is aligned with the input: entry t uses the `window` days ending at t (inclusive)
+// and is null until a full window is available.
+
+import { historicalTail, parametricTail } from "./risk";
+import { mean, std } from "./stats";
+import type { BacktestMethod } from "./backtest";
+
+export type RollingSeries = Array<number | null>;
+
+export const ROLLING_WINDOWS = [21, 63, 126];
+
+export const EWMA_LAMBDA = 0.94; // RiskMetrics daily decay
+
+// running sums keep these O(n) regardless of the window
+function rollingMoments(a: number[], b: number[], window: number, f: (cov: number, varA: number, varB: number) => number): RollingSeries {
+  const n = Math.min(a.length, b.length);
+  const out: RollingSeries = new Array(n).fill(null);
+  let sa = 0;
+  let sb = 0;
+  let saa = 0;
+  let sbb = 0;
+  let sab = 0;
+  for (let t = 0; t < n; t++) {
+    sa += a[t];
+    sb += b[t];
+    saa += a[t] * a[t];
+    sbb += b[t] * b[t];
+    sab += a[t] * b[t];
+    if (t >= window) {
+      const k = t - window;
+      sa -= a[k];
+      sb -= b[k];
+      saa -= a[k] * a[k];
+      sbb -= b[k] * b[k];
+      sab -= a[k] * b[k];
+    }
+    if (t >= window - 1) {
+      const cov = (sab - (sa * sb) / window) / (window - 1);
+      const varA = Math.max(0, (saa - (sa * sa) / window) / (window - 1));
+      const varB = Math.max(0, (sbb - (sb * sb) / window) / (window - 1));
+      out[t] = f(cov, varA, varB);
+    }
+  }
+  return out;
+}
+
+export function rollingVolatility(returns: number[], window: number, annFactor = 252) {
+  return rollingMoments(returns, returns, window, (_, v) => Math.sqrt(v * annFactor));
+}
+
+// flat benchmark windows give 0, as beta() does
+export function rollingBeta(returns: number[], bench: number[], window: number) {
+  return rollingMoments(returns, bench, window, (c, _, vb) => (vb === 0 ? 0 : c / vb));
+}
+
+export function rollingCorrelation(a: number[], b: number[], window: number) {
+  return rollingMoments(a, b, window, (c, va, vb) => (va * vb === 0 ? 0 : Math.max(-1, Math.min(1, c / Math.sqrt(va * vb)))));
+}
+
+// RiskMetrics: σ²ₜ = λσ²ₜ₋₁ + (1 − λ)r²ₜ, seeded with the mean square of the first window
+// so the first value lines up with the simple-window estimate
+export function ewmaVolatility(returns: number[], window: number, lambda = EWMA_LAMBDA, annFactor = 252) {
+  const out: RollingSeries = new Array(returns.length).fill(null);
+  if (returns.length < window) return out;
+  let v = 0;
+  for (let t = 0; t < window; t++) v += returns[t] ** 2 / window;
+  out[window - 1] = Math.sqrt(v * annFactor);
+  for (let t = window; t < returns.length; t++) {
+    v = lambda * v + (1 - lambda) * returns[t] ** 2;
+    out[t] = Math.sqrt(v * annFactor);
+  }
+  return out;
+}
+
+// one-day VaR (positive loss) from each trailing window
+export function rollingVaR(returns: number[], window: number, conf: number, method: BacktestMethod) {
+  const out: RollingSeries = new Array(returns.length).fill(null);
+  for (let t = window - 1; t < returns.length; t++) {
+    const hist = returns.slice(t - window + 1, t + 1);
+    out[t] = method === "historical" ? historicalTail(hist, conf).var : parametricTail(mean(hist), std(hist), conf).var;
+  }
+  return out;
+}
@@ -0,0 +1,75 @@
+// ---------- scenario library & multi-factor stress ---------- //
+// A scenario moves a few risk factors (and optionally individual assets
+// directly). Asset returns follow from per-asset factor exposures; a direct
+// asset shock always wins over the factor-implied move.
+
+export type Factor = "equity" | "rates" | "credit" | "gold";
+
+export const FACTORS: Array<{ key: Factor; label: string; unit: "%" | "bp"; exposure: string }> = [
+  { key: "equity", label: "Equities (benchmark)", unit: "%", exposure: "β" },
+  { key: "rates", label: "Rates", unit: "bp", exposure: "Duration" },
+  { key: "credit", label: "Credit spreads", unit: "bp", exposure: "Spread dur." },
+  { key: "gold", label: "Gold", unit: "%", exposure: "Gold β" },
+];
+
+// equity/gold: return per unit move; rates/credit: duration in years
+export type Exposures = Record<Factor, number>;
+
+// "%" factors are stored as return fractions, "bp" factors in basis points
+export type Scenario = {
+  id: string;
+  name: string;
+  factors: Partial<Record<Factor, number>>;
+  assets: Record<string, number>; // direct return shocks keyed by ticker
+};
+
+export const PRESET_SCENARIOS: Scenario[] = [
+  { id: "gfc-2008", name: "2008 GFC", factors: { equity: -0.45, rates: -150, credit: 450, gold: 0.05 }, assets: {} },
+  { id: "covid-2020", name: "2020 COVID crash", factors: { equity: -0.34, rates: -130, credit: 250, gold: -0.03 }, assets: {} },
+  { id: "rates-2022", name: "2022 rate shock", factors: { equity: -0.25, rates: 250, credit: 120, gold: -0.05 }, assets: {} },
+];
+
+// ids for user-defined scenarios; the "custom-" prefix keeps them clear of the preset ids
+export function newScenarioId() {
+  return `custom-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// rough exposures for common tickers; anything else is treated as equity at its estimated beta
+const KNOWN: Record<string, Partial<Exposures>> = {
+  AGG: { equity: 0, rates: 6, credit: 2 },
+  BND: { equity: 0, rates: 6.5, credit: 2 },
+  TLT: { equity: 0, rates: 17 },
+  IEF: { equity: 0, rates: 7.5 },
+  SHY: { equity: 0, rates: 1.9 },
+  LQD: { equity: 0.1, rates: 8, credit: 8 },
+  HYG: { equity: 0.35, rates: 3.5, credit: 3.5 },
+  GLD: { equity: 0, gold: 1 },
+  IAU: { equity: 0, gold: 1 },
+  SLV: { equity: 0.2, gold: 1.3 },
+};
+
+export function defaultExposures(ticker: string, beta: number): Exposures {
+  return { equity: beta, rates: 0, credit: 0, gold: 0, ...KNOWN[ticker.toUpperCase()] };
+}
+
+export function assetShock(ticker: string, e: Exposures, s: Scenario) {
+  const direct = s.assets[ticker];
+  if (direct !== undefined) return direct;
+  const f = s.factors;
+  return (f.equity ?? 0) * e.equity + (f.gold ?? 0) * e.gold - (e.rates * (f.rates ?? 0)) / 10000 - (e.credit * (f.credit ?? 0)) / 10000;
+}
+
+export type ScenarioResult = { shocks: number[]; contributions: number[]; total: number };
+
+export function runScenario(tickers: string[], exposures: Exposures[], w: number[], s: Scenario): ScenarioResult {
+  const shocks = tickers.map((t, i) => assetShock(t, exposures[i], s));
+  const contributions = shocks.map((r, i) => r * (w[i] ?? 0));
+  return { shocks, contributions, total: contributions.reduce((a, b) => a + b, 0) };
+}
+
+// smallest benchmark move producing `loss` (a positive fraction) when the portfolio
+// responds linearly with `sensitivity` per unit of benchmark return; null if it cannot
+export function reverseStress(sensitivity: number, loss: number) {
+  if (Math.abs(sensitivity) < 1e-9) return null;
+  return -loss / sensitivity;
+}
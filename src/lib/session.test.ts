@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LIMITS } from "./limits";
+import { libraryFromJson, sanitizeConfig, type WizardConfig } from "./session";
+
+const defaults: WizardConfig = {
+  step: 1,
+  days: 252,
+  conf: 0.95,
+  method: "historical",
+  mc: { paths: 20000, seed: 1234 },
+  covariance: { estimator: "sample", lambda: 0.94 },
+  weights: [0.5, 0.5],
+  weightMode: "normalized",
+  cashRate: 0.02,
+  shock: -0.07,
+  horizon: 1,
+  notional: 1_000_000,
+  customScenarios: [],
+  exposureOverrides: {},
+  limits: DEFAULT_LIMITS,
+  simulation: { corr: [[1, 0, 0], [0, 1, 0], [0, 0, 1]], distribution: "normal", df: 5, seed: 42 },
+  universe: {
+    specs: [
+      { id: "a", ticker: "AAA", mu: 0.05, sigma: 0.2, color: "#2563eb" },
+      { id: "b", ticker: "BBB", mu: 0.03, sigma: 0.1, color: "#16a34a" },
+      { id: "m", ticker: "MKT", mu: 0.04, sigma: 0.15, color: "#6b7280" },
+    ],
+    benchmarkId: "m",
+  },
+  dataset: null,
+};
+
+describe("sanitizeConfig", () => {
+  it("keeps a valid config as is", () => {
+    const c = { ...defaults, method: "monte-carlo", horizon: 10, days: 504, shock: -0.1, mc: { paths: 5000, seed: 9 } };
+    expect(sanitizeConfig(JSON.parse(JSON.stringify(c)), defaults)).toEqual(c);
+  });
+
+  it("falls back to the default for values outside their allowed set or range", () => {
+    const c = sanitizeConfig(
+      { method: "magic", horizon: 7, days: 1e9, notional: -5, shock: 40, mc: { paths: 1e9, seed: "x" }, cashRate: 99 },
+      defaults,
+    );
+    expect(c.method).toBe("historical");
+    expect(c.horizon).toBe(1);
+    expect(c.days).toBe(252);
+    expect(c.notional).toBe(1_000_000);
+    expect(c.shock).toBe(-0.07);
+    expect(c.mc).toEqual({ paths: 20000, seed: 1234 });
+    expect(c.cashRate).toBe(0.02);
+  });
+
+  it("drops malformed scenarios and exposure overrides", () => {
+    const c = sanitizeConfig(
+      {
+        customScenarios: [
+          { id: "s1", name: "Ok", factors: { equity: -0.1, bogus: 3 }, assets: { AAA: -0.2 } },
+          { id: "s2", name: "Bad", factors: { equity: "lots" }, assets: {} },
+          null,
+        ],
+        exposureOverrides: { a: { rates: 2 }, b: { equity: null } },
+      },
+      defaults,
+    );
+    expect(c.customScenarios).toEqual([{ id: "s1", name: "Ok", factors: { equity: -0.1 }, assets: { AAA: -0.2 } }]);
+    expect(c.exposureOverrides).toEqual({ a: { rates: 2 } });
+  });
+
+  it("rejects a dataset whose series do not match its dates", () => {
+    const dataset = { dates: ["d1", "d2"], kind: "returns", series: [{ ticker: "X", returns: [0.1] }, { ticker: "M", returns: [0, 0] }], benchmark: "M", rejected: [], filled: 0, dropped: 0 };
+    expect(sanitizeConfig({ dataset }, defaults).dataset).toBeNull();
+  });
+  it("rejects a universe with a zero volatility, which the simulator cannot use", () => {
+    const specs = defaults.universe.specs.map((s) => (s.id === "b" ? { ...s, sigma: 0 } : s));
+    expect(sanitizeConfig({ universe: { ...defaults.universe, specs } }, defaults).universe).toEqual(defaults.universe);
+  });
+});
+
+describe("libraryFromJson", () => {
+  it("sanitises each saved config and skips entries without a name", () => {
+    const list = libraryFromJson(JSON.stringify({ portfolios: [{ name: "p", savedAt: "t", config: { method: 3, horizon: 21 } }, { config: {} }] }), defaults);
+    expect(list).toHaveLength(1);
+    expect(list[0].config.method).toBe("historical");
+    expect(list[0].config.horizon).toBe(21);
+  });
+});
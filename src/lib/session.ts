@@ -0,0 +1,228 @@
+// ---------- shareable sessions & saved portfolios ---------- //
+// The full wizard configuration round-trips through a versioned, deflate-compressed
+// URL hash (`#s=<version>.<encoding>.<base64url>`) and a named library kept in
+// localStorage. Anything read back is sanitised against the defaults first.
+
+import type { CovSettings } from "./covariance";
+import type { WeightMode } from "./engine";
+import type { ImportedDataset } from "./importData";
+import type { RiskLimits } from "./limits";
+import type { MonteCarloSettings } from "./monteCarlo";
+import { HORIZONS, VAR_METHODS, type VaRMethod } from "./risk";
+import { FACTORS, type Exposures, type Scenario } from "./scenarios";
+import type { SimulationSettings } from "./simulation";
+import { holdings, type Universe } from "./universe";
+
+export const SESSION_VERSION = 1;
+
+// bounds of the history-length slider and the Monte Carlo path choices in the wizard
+export const MIN_DAYS = 126;
+export const MAX_DAYS = 756;
+export const MAX_MC_PATHS = 100000;
+
+export type WizardConfig = {
+  step: number;
+  days: number;
+  conf: number;
+  method: VaRMethod;
+  mc: MonteCarloSettings;
+  covariance: CovSettings;
+  weights: number[];
+  weightMode: WeightMode;
+  cashRate: number; // annual, on the cash line in exposure mode
+  shock: number;
+  horizon: number;
+  notional: number;
+  customScenarios: Scenario[];
+  exposureOverrides: Record<string, Partial<Exposures>>;
+  limits: RiskLimits;
+  simulation: SimulationSettings;
+  universe: Universe;
+  dataset: ImportedDataset | null; // left out of URLs, kept in saved portfolios
+};
+
+export type SavedPortfolio = { name: string; savedAt: string; config: WizardConfig };
+
+const LIBRARY_KEY = "savedPortfolios";
+
+// ---------- encoding ---------- //
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+async function pipe(bytes: Uint8Array, stream: CompressionStream | DecompressionStream) {
+  const out = new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream));
+  return new Uint8Array(await out.arrayBuffer());
+}
+
+// "z" = deflate-raw, "j" = plain JSON for browsers without CompressionStream
+export async function encodeSession(c: WizardConfig) {
+  const json = new TextEncoder().encode(JSON.stringify({ ...c, dataset: null }));
+  if (typeof CompressionStream === "undefined") return `s=${SESSION_VERSION}.j.${toBase64Url(json)}`;
+  return `s=${SESSION_VERSION}.z.${toBase64Url(await pipe(json, new CompressionStream("deflate-raw")))}`;
+}
+
+export async function decodeSession(hash: string): Promise<unknown | null> {
+  const m = /^#?s=(\d+)\.([zj])\.([A-Za-z0-9_-]+)$/.exec(hash);
+  if (!m || Number(m[1]) !== SESSION_VERSION) return null;
+  try {
+    let bytes = fromBase64Url(m[3]);
+    if (m[2] === "z") bytes = await pipe(bytes, new DecompressionStream("deflate-raw"));
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return null;
+  }
+}
+
+// ---------- sanitising ---------- //
+function sameShape(a: unknown, b: unknown) {
+  if (Array.isArray(b)) return Array.isArray(a);
+  if (b === null) return a === null || (typeof a === "object" && !Array.isArray(a));
+  return typeof a === typeof b && a !== null && !Array.isArray(a);
+}
+
+function isFiniteNumbers(v: unknown): v is number[] {
+  return Array.isArray(v) && v.every((x) => typeof x === "number" && Number.isFinite(x));
+}
+
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const inRange = (v: unknown, lo: number, hi: number): v is number => isNum(v) && v >= lo && v <= hi;
+const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+// a record of finite numbers, keeping only the keys `allowed` accepts
+function numberRecord(v: unknown, allowed: (k: string) => boolean = () => true) {
+  if (!isRecord(v)) return null;
+  const out: Record<string, number> = {};
+  for (const [k, x] of Object.entries(v)) {
+    if (!allowed(k)) continue;
+    if (!isNum(x)) return null;
+    out[k] = x;
+  }
+  return out;
+}
+
+const isFactor = (k: string) => FACTORS.some((f) => f.key === k);
+
+function sanitizeScenario(v: unknown): Scenario | null {
+  if (!isRecord(v) || typeof v.id !== "string" || typeof v.name !== "string") return null;
+  const factors = numberRecord(v.factors, isFactor);
+  const assets = numberRecord(v.assets);
+  return factors && assets ? { id: v.id, name: v.name, factors, assets } : null;
+}
+
+function validSpecs(u: Universe) {
+  const ids = new Set<string>();
+  for (const s of u.specs as unknown[]) {
+    if (!isRecord(s) || typeof s.id !== "string" || ids.has(s.id) || typeof s.ticker !== "string" || !s.ticker.trim()) return false;
+    if (!isNum(s.mu) || !(inRange(s.sigma, 0, 10) && s.sigma > 0) || typeof s.color !== "string") return false;
+    ids.add(s.id);
+  }
+  return ids.size >= 2 && ids.has(u.benchmarkId);
+}
+
+function validDataset(d: ImportedDataset) {
+  if (!Array.isArray(d.dates) || !d.dates.every((x) => typeof x === "string")) return false;
+  if (d.kind !== "prices" && d.kind !== "returns") return false;
+  if (!Array.isArray(d.series) || d.series.length < 2) return false;
+  const n = d.dates.length;
+  if (!d.series.every((s) => isRecord(s) && typeof s.ticker === "string" && isFiniteNumbers(s.returns) && s.returns.length === n)) return false;
+  return d.series.some((s) => s.ticker === d.benchmark) && Array.isArray(d.rejected) && isNum(d.filled) && isNum(d.dropped);
+}
+
+// take each top-level field whose type matches the default, then check every field against its
+// allowed values (falling back to the default) and repair cross-field invariants
+export function sanitizeConfig(raw: unknown, defaults: WizardConfig): WizardConfig {
+  if (!raw || typeof raw !== "object") return defaults;
+  const r = raw as Record<string, unknown>;
+  const c = { ...defaults } as Record<string, unknown>;
+  for (const k of Object.keys(defaults)) if (k in r && sameShape(r[k], (defaults as Record<string, unknown>)[k])) c[k] = r[k];
+  const out = c as WizardConfig;
+
+  if (!Array.isArray(out.universe.specs) || !validSpecs(out.universe)) out.universe = defaults.universe;
+  const n = out.universe.specs.length;
+  const sim = out.simulation;
+  out.simulation = {
+    corr: sim.corr,
+    distribution: ["normal", "student-t", "regime"].includes(sim.distribution) ? sim.distribution : defaults.simulation.distribution,
+    df: inRange(sim.df, 2.01, 1000) ? sim.df : defaults.simulation.df,
+    seed: isNum(sim.seed) ? sim.seed : defaults.simulation.seed,
+  };
+  const corr = sim.corr;
+  if (!Array.isArray(corr) || corr.length !== n || !corr.every((row) => isFiniteNumbers(row) && row.length === n && row.every((x) => x >= -1 && x <= 1))) {
+    out.simulation.corr = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+  }
+
+  if (out.dataset && !validDataset(out.dataset)) out.dataset = null;
+  const held = out.dataset ? out.dataset.series.length - 1 : holdings(out.universe).length;
+  if (!isFiniteNumbers(out.weights) || out.weights.length !== held) out.weights = Array(held).fill(1 / held);
+  if (out.weightMode !== "normalized" && out.weightMode !== "exposure") out.weightMode = defaults.weightMode;
+  if (!inRange(out.cashRate, -1, 1)) out.cashRate = defaults.cashRate;
+  const cov = out.covariance;
+  if (!["sample", "ewma", "ledoit-wolf"].includes(cov.estimator) || !(cov.lambda > 0 && cov.lambda < 1)) out.covariance = defaults.covariance;
+  const lim = { ...defaults.limits } as Record<string, unknown>;
+  for (const k of Object.keys(lim)) {
+    const v = (out.limits as Record<string, unknown>)[k];
+    if ((v === null && k !== "warnAt") || isNum(v)) lim[k] = v;
+  }
+  out.limits = lim as RiskLimits;
+  if (!(out.limits.warnAt > 0 && out.limits.warnAt <= 1)) out.limits.warnAt = defaults.limits.warnAt;
+  if (!Number.isFinite(out.conf) || out.conf <= 0 || out.conf >= 1) out.conf = defaults.conf;
+
+  if (!VAR_METHODS.some((m) => m.value === out.method)) out.method = defaults.method;
+  if (!HORIZONS.some((h) => h.days === out.horizon)) out.horizon = defaults.horizon;
+  if (!Number.isInteger(out.days) || !inRange(out.days, MIN_DAYS, MAX_DAYS)) out.days = defaults.days;
+  if (!inRange(out.notional, 0, Number.MAX_SAFE_INTEGER)) out.notional = defaults.notional;
+  if (!inRange(out.shock, -1, 1)) out.shock = defaults.shock;
+  const mc = out.mc;
+  out.mc = {
+    paths: Number.isInteger(mc.paths) && inRange(mc.paths, 1, MAX_MC_PATHS) ? mc.paths : defaults.mc.paths,
+    seed: Number.isInteger(mc.seed) ? mc.seed : defaults.mc.seed,
+  };
+  out.customScenarios = out.customScenarios.map(sanitizeScenario).filter((s): s is Scenario => s !== null);
+  const overrides: WizardConfig["exposureOverrides"] = {};
+  for (const [id, e] of Object.entries(out.exposureOverrides)) {
+    const rec = numberRecord(e, isFactor);
+    if (rec) overrides[id] = rec;
+  }
+  out.exposureOverrides = overrides;
+  out.step = Math.min(4, Math.max(1, Math.round(out.step) || 1));
+  return out;
+}
+
+// a saved entry with a name; its config is sanitised against the defaults like a shared link
+function sanitizeSaved(p: unknown, defaults: WizardConfig): SavedPortfolio | null {
+  if (!isRecord(p) || typeof p.name !== "string" || !isRecord(p.config)) return null;
+  return { name: p.name, savedAt: typeof p.savedAt === "string" ? p.savedAt : "", config: sanitizeConfig(p.config, defaults) };
+}
+
+// ---------- saved portfolio library ---------- //
+export function loadLibrary(defaults: WizardConfig): SavedPortfolio[] {
+  try {
+    const list = JSON.parse(localStorage.getItem(LIBRARY_KEY) || "[]");
+    return Array.isArray(list) ? list.map((p) => sanitizeSaved(p, defaults)).filter((p): p is SavedPortfolio => p !== null) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeLibrary(list: SavedPortfolio[]) {
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(list));
+}
+
+export function libraryToJson(list: SavedPortfolio[]) {
+  return JSON.stringify({ version: SESSION_VERSION, portfolios: list }, null, 2);
+}
+
+export function libraryFromJson(text: string, defaults: WizardConfig): SavedPortfolio[] {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data) ? data : data?.portfolios;
+  if (!Array.isArray(list)) throw new Error("Expected a list of saved portfolios.");
+  return list.map((p) => sanitizeSaved(p, defaults)).filter((p): p is SavedPortfolio => p !== null);
+}
@@ -0,0 +1,125 @@
+// ---------- correlated multi-asset return simulation ---------- //
+// Draws jointly correlated daily returns from a target correlation matrix by
+// multiplying independent shocks with its Cholesky factor. Everything is
+// driven by a seeded RNG so the same settings always reproduce the same paths.
+
+export type Distribution = "normal" | "student-t" | "regime";
+
+export type SimulationSettings = {
+  corr: number[][]; // target correlation matrix, one row per simulated series
+  distribution: Distribution;
+  df: number; // Student-t degrees of freedom (> 2 so the variance exists)
+  seed: number;
+};
+
+export type SeriesParams = { mu: number; sigma: number };
+
+// two-state Markov regime model: calm days use the given σ, stressed days scale it up
+export const REGIME = { pStayCalm: 0.98, pStayStress: 0.9, stressVolMult: 2.5 };
+
+// ---------- random numbers ---------- //
+// mulberry32: small, fast and good enough for demo-scale Monte Carlo
+export function createRng(seed: number) {
+  let a = seed >>> 0;
+  const uniform = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  let spare: number | null = null;
+  const normal = () => {
+    // Box-Muller transform, caching the second variate
+    if (spare !== null) {
+      const z = spare;
+      spare = null;
+      return z;
+    }
+    const u1 = Math.max(uniform(), 1e-12);
+    const u2 = uniform();
+    const r = Math.sqrt(-2 * Math.log(u1));
+    spare = r * Math.sin(2 * Math.PI * u2);
+    return r * Math.cos(2 * Math.PI * u2);
+  };
+  // Marsaglia–Tsang gamma(shape, 1)
+  const gamma = (shape: number): number => {
+    if (shape < 1) return gamma(shape + 1) * Math.pow(Math.max(uniform(), 1e-12), 1 / shape);
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    for (;;) {
+      let x: number;
+      let v: number;
+      do {
+        x = normal();
+        v = 1 + c * x;
+      } while (v <= 0);
+      v = v * v * v;
+      const u = uniform();
+      if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+    }
+  };
+  const chiSquare = (df: number) => 2 * gamma(df / 2);
+  return { uniform, normal, chiSquare };
+}
+
+export type Rng = ReturnType<typeof createRng>;
+
+// ---------- linear algebra ---------- //
+// lower-triangular L with L Lᵀ = M, or null when M is not positive definite
+export function cholesky(M: number[][]): number[][] | null {
+  const n = M.length;
+  const L: number[][] = Array.from({ length: n }, () => Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let s = M[i][j];
+      for (let k = 0; k < j; k++) s -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (s <= 1e-12) return null;
+        L[i][i] = Math.sqrt(s);
+      } else {
+        L[i][j] = s / L[j][j];
+      }
+    }
+  }
+  return L;
+}
+
+export function identity(n: number) {
+  return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+}
+
+// ---------- path generation ---------- //
+// returns one daily return series per entry of `params`
+export function simulateReturns(days: number, params: SeriesParams[], settings: SimulationSettings) {
+  const n = params.length;
+  const L = cholesky(settings.corr);
+  if (!L) throw new Error("Target correlation matrix is not positive definite.");
+  const rng = createRng(settings.seed);
+  const out: number[][] = params.map(() => new Array(days));
+  const df = Math.max(settings.df, 2.1);
+  const z: number[] = new Array(n);
+  let stressed = false;
+
+  for (let t = 0; t < days; t++) {
+    for (let i = 0; i < n; i++) z[i] = rng.normal();
+
+    // common scale per day: a shared chi-square mixes all assets together (multivariate t),
+    // and the regime model scales every σ on stressed days
+    let scale = 1;
+    if (settings.distribution === "student-t") {
+      scale = Math.sqrt((df - 2) / rng.chiSquare(df)); // unit variance t
+    } else if (settings.distribution === "regime") {
+      const stay = stressed ? REGIME.pStayStress : REGIME.pStayCalm;
+      if (rng.uniform() > stay) stressed = !stressed;
+      scale = stressed ? REGIME.stressVolMult : 1;
+    }
+
+    for (let i = 0; i < n; i++) {
+      let e = 0;
+      for (let k = 0; k <= i; k++) e += L[i][k] * z[k];
+      out[i][t] = params[i].mu + params[i].sigma * scale * e;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { navOnDates } from "./snapshots";
+
+describe("navOnDates", () => {
+  it("lines sample data up by position only when the lengths match", () => {
+    const snap = { nav: [1.01, 1.02, 1.03], dates: null };
+    expect(navOnDates(snap, null, 3)).toEqual([1.01, 1.02, 1.03]);
+    expect(navOnDates(snap, null, 4)).toBeNull();
+  });
+
+  it("does not mix imported and sample data", () => {
+    expect(navOnDates({ nav: [1, 1], dates: ["d1", "d2"] }, null, 2)).toBeNull();
+    expect(navOnDates({ nav: [1, 1], dates: null }, ["d1", "d2"], 2)).toBeNull();
+  });
+
+  it("matches imported data by date and leaves missing days empty", () => {
+    const snap = { nav: [1.1, 1.2, 1.3], dates: ["d2", "d3", "d5"] };
+    expect(navOnDates(snap, ["d2", "d3", "d4", "d5"], 4)).toEqual([1.1, 1.2, null, 1.3]);
+    expect(navOnDates(snap, ["d7", "d8"], 2)).toBeNull();
+  });
+
+  it("rebases a longer history to grow from the chart's first day", () => {
+    const snap = { nav: [1.1, 1.21, 1.331], dates: ["d1", "d2", "d3"] };
+    const nav = navOnDates(snap, ["d2", "d3"], 2)!;
+    expect(nav[0]).toBeCloseTo(1.1, 12);
+    expect(nav[1]).toBeCloseTo(1.21, 12);
+  });
+});
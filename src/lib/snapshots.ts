@@ -0,0 +1,115 @@
+// ---------- portfolio snapshots ---------- //
+// A pinned copy of a portfolio and its Step 4 figures, kept for side-by-side comparison. The figures
+// are frozen at pin time, together with the settings they were computed under.
+
+import type { RiskView, WeightMode } from "./engine";
+import type { TailRisk, VaRMethod } from "./risk";
+
+export const MAX_SNAPSHOTS = 4;
+
+// NAV line colours, distinct from the portfolio (blue), relative (purple) and usual benchmark lines
+const SNAPSHOT_COLORS = ["#0891b2", "#ea580c", "#db2777", "#65a30d"];
+
+export type SnapshotMetrics = {
+  volAnn: number; // √(wᵀΣw), annualized
+  beta: number;
+  var: number; // selected method, horizon and confidence
+  es: number;
+  maxDD: number;
+  stressLoss: number; // portfolio return under the benchmark shock
+};
+
+export type Snapshot = {
+  id: string;
+  name: string;
+  color: string;
+  createdAt: string;
+  tickers: string[];
+  w: number[]; // effective weights, as fractions of NAV
+  weightMode: WeightMode;
+  settings: { conf: number; horizon: number; method: VaRMethod; shock: number };
+  metrics: SnapshotMetrics;
+  nav: number[];
+  dates: string[] | null; // one per NAV point for imported data; null for the sample data, indexed by day
+};
+
+// `worse` is the direction that means more risk; beta has none, it is only flagged as changed
+export const SNAPSHOT_METRICS: Array<{ key: keyof SnapshotMetrics; label: string; worse: "up" | "down" | null }> = [
+  { key: "volAnn", label: "Volatility (σ, annualized)", worse: "up" },
+  { key: "beta", label: "Beta", worse: null },
+  { key: "var", label: "VaR", worse: "up" },
+  { key: "es", label: "Expected Shortfall", worse: "up" },
+  { key: "maxDD", label: "Max drawdown", worse: "up" },
+  { key: "stressLoss", label: "Stress impact", worse: "down" },
+];
+
+export function selectTail(tails: RiskView["tails"], method: VaRMethod): TailRisk {
+  return { historical: tails.historical, parametric: tails.parametric, "cornish-fisher": tails.cornishFisher, "monte-carlo": tails.monteCarlo }[method];
+}
+
+export function snapshotMetrics(risk: RiskView, method: VaRMethod): SnapshotMetrics {
+  const tail = selectTail(risk.tails, method);
+  return { volAnn: risk.volByMatrix, beta: risk.beta, var: tail.var, es: tail.es, maxDD: risk.maxDD, stressLoss: risk.stressLoss };
+}
+
+export function makeSnapshot(
+  name: string,
+  color: string,
+  risk: RiskView,
+  tickers: string[],
+  weightMode: WeightMode,
+  settings: Snapshot["settings"],
+  dates: string[] | null,
+): Snapshot {
+  return {
+    id: `s${Math.random().toString(36).slice(2, 10)}`,
+    name,
+    color,
+    createdAt: new Date().toISOString(),
+    tickers,
+    w: [...risk.w],
+    weightMode,
+    settings: { ...settings },
+    metrics: snapshotMetrics(risk, settings.method),
+    nav: [...risk.nav],
+    dates: dates && [...dates],
+  };
+}
+
+// A snapshot's NAV on the days of the current chart: matched by date for imported data, by position
+// for sample data of the same length. Null when the two histories cannot be lined up.
+export function navOnDates(snap: Pick<Snapshot, "nav" | "dates">, dates: string[] | null, length: number): Array<number | null> | null {
+  if (!dates || !snap.dates) return !dates && !snap.dates && snap.nav.length === length ? snap.nav : null;
+  const at = new Map(snap.dates.map((d, i) => [d, i]));
+  const first = dates.findIndex((d) => at.has(d));
+  if (first < 0) return null;
+  // when the snapshot reaches back past the chart's first day, rebase it to grow from the same start
+  const i0 = at.get(dates[first])!;
+  const base = first === 0 && i0 > 0 ? snap.nav[i0 - 1] : 1;
+  return dates.map((d) => {
+    const i = at.get(d);
+    return i === undefined ? null : snap.nav[i] / base;
+  });
+}
+
+// first colour not already taken by a pinned snapshot
+export function nextSnapshotColor(snaps: Snapshot[]) {
+  return SNAPSHOT_COLORS.find((c) => !snaps.some((s) => s.color === c)) ?? SNAPSHOT_COLORS[snaps.length % SNAPSHOT_COLORS.length];
+}
+
+// weight of `ticker` in a snapshot; a ticker it did not hold counts as 0
+export function weightOf(snap: Pick<Snapshot, "tickers" | "w">, ticker: string) {
+  const i = snap.tickers.indexOf(ticker);
+  return i < 0 ? 0 : snap.w[i] ?? 0;
+}
+
+// every ticker held by any of the portfolios, in first-seen order
+export function unionTickers(snaps: Array<Pick<Snapshot, "tickers">>) {
+  const out: string[] = [];
+  for (const s of snaps) for (const t of s.tickers) if (!out.includes(t)) out.push(t);
+  return out;
+}
+
+export function sameSettings(a: Snapshot["settings"], b: Snapshot["settings"]) {
+  return a.conf === b.conf && a.horizon === b.horizon && a.method === b.method && a.shock === b.shock;
+}
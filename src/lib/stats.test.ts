@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { cornishFisher, excessKurtosis, inverseNormalCdf, normalCdf, skewness, zFromConf } from "./stats";
+
+describe("normal distribution", () => {
+  it("inverts the CDF at known quantiles", () => {
+    expect(inverseNormalCdf(0.5)).toBeCloseTo(0, 9);
+    expect(zFromConf(0.95)).toBeCloseTo(1.644854, 6);
+    expect(zFromConf(0.975)).toBeCloseTo(1.959964, 6);
+    expect(zFromConf(0.99)).toBeCloseTo(2.326348, 6);
+    expect(zFromConf(0.999)).toBeCloseTo(3.090232, 6);
+    expect(inverseNormalCdf(0.01)).toBeCloseTo(-2.326348, 6);
+  });
+
+  it("returns infinities outside (0, 1)", () => {
+    expect(inverseNormalCdf(0)).toBe(-Infinity);
+    expect(inverseNormalCdf(1)).toBe(Infinity);
+  });
+
+  it("evaluates the CDF at known points", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+    expect(normalCdf(1.959964)).toBeCloseTo(0.975, 6);
+    expect(normalCdf(-1.644854)).toBeCloseTo(0.05, 6);
+    expect(normalCdf(3)).toBeCloseTo(0.998650, 6);
+    expect(normalCdf(-8)).toBeCloseTo(0, 12);
+  });
+
+  it("round-trips through the inverse across both tails", () => {
+    for (const p of [0.001, 0.02, 0.3, 0.5, 0.7, 0.98, 0.999]) expect(normalCdf(inverseNormalCdf(p))).toBeCloseTo(p, 6);
+  });
+});
+
+describe("Cornish–Fisher", () => {
+  it("reduces to the normal quantile without skewness or excess kurtosis", () => {
+    for (const z of [-2.326, 0, 1.645, 3.09]) expect(cornishFisher(z, 0, 0)).toBe(z);
+  });
+
+  it("moves the lower quantile further out for negative skew and fat tails", () => {
+    const z = -zFromConf(0.99);
+    expect(cornishFisher(z, -0.5, 0)).toBeLessThan(z);
+    expect(cornishFisher(z, 0, 3)).toBeLessThan(z);
+  });
+
+  it("matches a hand-computed expansion", () => {
+    const z = 2, s = 0.5, k = 1;
+    expect(cornishFisher(z, s, k)).toBeCloseTo(2 + (3 * 0.5) / 6 + (2 * 1) / 24 - (6 * 0.25) / 36, 12);
+  });
+});
+
+describe("moments", () => {
+  it("is zero for symmetric data and flat series", () => {
+    expect(skewness([-2, -1, 0, 1, 2])).toBeCloseTo(0, 12);
+    expect(skewness([3, 3, 3])).toBe(0);
+    expect(excessKurtosis([3, 3, 3])).toBe(0);
+  });
+
+  it("matches population-moment values for small samples", () => {
+    // [0, 0, 0, 1]: mean 0.25, m2 = 0.1875, m3 = 0.09375
+    expect(skewness([0, 0, 0, 1])).toBeCloseTo(0.09375 / 0.1875 ** 1.5, 12);
+    expect(excessKurtosis([0, 0, 0, 1])).toBeCloseTo((3 * 0.25 ** 4 + 0.75 ** 4) / 4 / 0.1875 ** 2 - 3, 12);
+    // two-point symmetric distribution has kurtosis 1
+    expect(excessKurtosis([-1, 1, -1, 1])).toBeCloseTo(-2, 12);
+  });
+});
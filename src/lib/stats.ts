@@ -0,0 +1,109 @@
+// ---------- descriptive statistics & the normal distribution ---------- //
+
+export function mean(arr: number[]) {
+  return arr.reduce((a, b) => a + b, 0) / arr.length;
+}
+
+// sample standard deviation (n - 1)
+export function std(arr: number[]) {
+  const m = mean(arr);
+  const v = arr.reduce((s, x) => s + (x - m) ** 2, 0) / (arr.length - 1);
+  return Math.sqrt(v);
+}
+
+export function covariance(a: number[], b: number[]) {
+  const mA = mean(a);
+  const mB = mean(b);
+  let s = 0;
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) s += (a[i] - mA) * (b[i] - mB);
+  return s / (n - 1);
+}
+
+// a constant series is uncorrelated with anything (rather than NaN)
+export function corr(a: number[], b: number[]) {
+  const d = std(a) * std(b);
+  return d === 0 ? 0 : covariance(a, b) / d;
+}
+
+// sample skewness (population moments, no small-sample correction)
+export function skewness(arr: number[]) {
+  const m = mean(arr);
+  let m2 = 0;
+  let m3 = 0;
+  for (const x of arr) {
+    const d = x - m;
+    m2 += d * d;
+    m3 += d * d * d;
+  }
+  m2 /= arr.length;
+  m3 /= arr.length;
+  return m2 === 0 ? 0 : m3 / m2 ** 1.5;
+}
+
+// excess kurtosis: 0 for a normal distribution
+export function excessKurtosis(arr: number[]) {
+  const m = mean(arr);
+  let m2 = 0;
+  let m4 = 0;
+  for (const x of arr) {
+    const d2 = (x - m) ** 2;
+    m2 += d2;
+    m4 += d2 * d2;
+  }
+  m2 /= arr.length;
+  m4 /= arr.length;
+  return m2 === 0 ? 0 : m4 / (m2 * m2) - 3;
+}
+
+export function normalPdf(x: number) {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+// complementary error function, Numerical Recipes' Chebyshev fit (|rel. error| < 1.2e-7)
+function erfc(x: number) {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const r =
+    t *
+    Math.exp(
+      -z * z -
+        1.26551223 +
+        t * (1.00002368 + t * (0.37409196 + t * (0.09678418 + t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))),
+    );
+  return x >= 0 ? r : 2 - r;
+}
+
+export function normalCdf(x: number) {
+  return 0.5 * erfc(-x / Math.SQRT2);
+}
+
+// Acklam's rational approximation to Φ⁻¹(p) (|rel. error| < 1.15e-9)
+const A = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+const B = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+const C = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+const D = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+const P_LOW = 0.02425;
+
+export function inverseNormalCdf(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p < P_LOW) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((C[0] * q + C[1]) * q + C[2]) * q + C[3]) * q + C[4]) * q + C[5]) / ((((D[0] * q + D[1]) * q + D[2]) * q + D[3]) * q + 1);
+  }
+  if (p > 1 - P_LOW) return -inverseNormalCdf(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((A[0] * r + A[1]) * r + A[2]) * r + A[3]) * r + A[4]) * r + A[5]) * q) / (((((B[0] * r + B[1]) * r + B[2]) * r + B[3]) * r + B[4]) * r + 1);
+}
+
+// one-tailed z for a confidence level, positive: 95% -> 1.645, 99% -> 2.326
+export function zFromConf(conf: number) {
+  return inverseNormalCdf(conf);
+}
+
+// Cornish–Fisher expansion of the normal quantile z for skewness s and excess kurtosis k
+export function cornishFisher(z: number, s: number, k: number) {
+  return z + ((z * z - 1) * s) / 6 + ((z ** 3 - 3 * z) * k) / 24 - ((2 * z ** 3 - 5 * z) * s * s) / 36;
+}
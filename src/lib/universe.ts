@@ -0,0 +1,52 @@
+// ---------- editable asset universe ---------- //
+// The universe is every series the wizard simulates: the benchmark is one of
+// its entries and the portfolio holds all the others. Entries carry a stable
+// id so weights and correlations follow them through renames and removals.
+
+export type AssetSpec = { id: string; ticker: string; mu: number; sigma: number; color: string };
+
+export type Universe = { specs: AssetSpec[]; benchmarkId: string };
+
+export function newAssetId() {
+  return `a${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function holdings(u: Universe) {
+  return u.specs.filter((s) => s.id !== u.benchmarkId);
+}
+
+export function validateUniverse(u: Universe) {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  for (const s of u.specs) {
+    const t = s.ticker.trim().toUpperCase();
+    if (!t) errors.push("Every asset needs a ticker.");
+    else if (seen.has(t)) errors.push(`Duplicate ticker ${t}.`);
+    seen.add(t);
+    if (!Number.isFinite(s.mu)) errors.push(`${t || "An asset"}: μ must be a number.`);
+    if (!Number.isFinite(s.sigma) || s.sigma <= 0) errors.push(`${t || "An asset"}: σ must be positive.`);
+  }
+  if (!u.specs.some((s) => s.id === u.benchmarkId)) errors.push("Pick a benchmark.");
+  if (u.specs.length < 2) errors.push("Add at least one asset besides the benchmark.");
+  return [...new Set(errors)];
+}
+
+// carry values keyed by id from one ordering to another, defaulting new ids
+export function remapVector(prevIds: string[], nextIds: string[], v: number[], fill = 0) {
+  return nextIds.map((id) => {
+    const k = prevIds.indexOf(id);
+    return k >= 0 ? v[k] ?? fill : fill;
+  });
+}
+
+// same for a symmetric matrix; new rows/columns start uncorrelated
+export function remapCorrelation(prevIds: string[], nextIds: string[], M: number[][]) {
+  return nextIds.map((a, i) =>
+    nextIds.map((b, j) => {
+      if (i === j) return 1;
+      const p = prevIds.indexOf(a);
+      const q = prevIds.indexOf(b);
+      return p >= 0 && q >= 0 ? M[p][q] : 0;
+    }),
+  );
+}
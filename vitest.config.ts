@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// the analytics in src/lib are framework-free, so tests run in plain Node without the React plugin
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+  },
+});